@@ -0,0 +1,35 @@
+// 検証スクリプトで共通に使うコマンドラインまわりの関数
+
+// @types/node は入れていないので、使う分だけ宣言する
+declare const process: { argv: string[]; exitCode?: number }
+declare const console: { log: (message: string) => void }
+
+export function log(message: string) {
+  console.log(message)
+}
+
+// `--name 5` の形の正の整数オプションを読む。指定がなければ defaultValue
+export function readNumberOption(name: string, defaultValue: number) {
+  const index = process.argv.indexOf(name)
+  const value = index >= 0 ? Number(process.argv[index + 1]) : defaultValue
+
+  if (!Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`)
+  }
+
+  return value
+}
+
+// 見つかった問題を先頭の 20 件まで表示し、1件でもあれば終了コードを 1 にする
+export function reportProblems(problems: unknown[], failureLabel: string, successMessage: string) {
+  for (const problem of problems.slice(0, 20)) {
+    log(JSON.stringify(problem))
+  }
+
+  if (problems.length > 0) {
+    log(`${failureLabel}: ${problems.length}`)
+    process.exitCode = 1
+  } else {
+    log(successMessage)
+  }
+}
@@ -5,10 +5,20 @@ JSONファイルとして出力するスクリプト。
 評価値 = 最善手を打ち続けた場合の最終駒数差（黒 - 白）
 正の値 → 黒有利、負の値 → 白有利、0 → 引き分け
 
-同時に白（AI）の最善手テーブルも生成する。
+同時に黒・白それぞれの最善手テーブルも生成する（AI はどちらの色も担当できる）。
+
+出力形式は --format で選ぶ（既定は binary と json の両方）。
+binary は src/features/strange-othello/packedTable.ts と同じ形式で、
+1マス2ビット + 手番1ビットのキーを昇順に並べ、値を int8 で持つ。
+
+盤面は --variant で選ぶ（既定は 6x6 のストレンジオセロ）。完全解析できるのは
+空きマスが少ない盤面だけなので、8x8 はここでは扱わない。
+6x6 以外の出力ファイル名には盤面の大きさが付く（例: strange-othello-eval-4x4.bin）。
 """
 
+import argparse
 import json
+import struct
 
 DIRECTIONS = [
     (-1, 0), (-1, 1), (0, 1), (1, 1),
@@ -24,8 +34,15 @@ INITIAL_BOARD = [
     ["white", "white", "white", "white", "white", "white"],
 ]
 
-ROWS = 6
-COLS = 6
+INITIAL_BOARDS = {
+    "4x4": [
+        ["empty", "empty", "empty", "empty"],
+        ["empty", "white", "black", "empty"],
+        ["empty", "black", "white", "empty"],
+        ["empty", "empty", "empty", "empty"],
+    ],
+    "6x6": INITIAL_BOARD,
+}
 
 
 def encode_board(board):
@@ -45,38 +62,79 @@ def encode_eval_state(board, turn):
     return f"{turn[0]}:{encode_board(board)}"
 
 
+TABLE_MAGIC = b"SOTB"
+TABLE_FORMAT_VERSION = 1
+TABLE_KIND_EVAL = 0
+TABLE_KIND_MOVE = 1
+CELL_CODES = {".": 0, "B": 1, "W": 2}
+
+
+def pack_state_key(encoded_state):
+    turn, cells = encoded_state.split(":")
+    key = bytearray((len(cells) * 2 + 1 + 7) // 8)
+    for index, cell in enumerate(cells):
+        bit = index * 2
+        key[bit >> 3] |= CELL_CODES[cell] << (bit & 7)
+    if turn == "w":
+        bit = len(cells) * 2
+        key[bit >> 3] |= 1 << (bit & 7)
+    return bytes(key)
+
+
+def encode_table_file(kind, entries, rows, cols, root_value, initial_turn, state_count):
+    packed = sorted((pack_state_key(state), value) for state, value in entries.items())
+    header = struct.pack(
+        "<4sBBBBbBHII",
+        TABLE_MAGIC,
+        TABLE_FORMAT_VERSION,
+        kind,
+        rows,
+        cols,
+        root_value,
+        1 if initial_turn == "white" else 0,
+        0,
+        len(packed),
+        state_count,
+    )
+    keys = b"".join(key for key, _ in packed)
+    values = struct.pack(f"<{len(packed)}b", *(value for _, value in packed))
+    return header + keys + values
+
+
 def find_valid_moves(board, color):
+    rows, cols = len(board), len(board[0])
     opponent = "white" if color == "black" else "black"
     moves = []
-    for row in range(ROWS):
-        for col in range(COLS):
+    for row in range(rows):
+        for col in range(cols):
             if board[row][col] != "empty":
                 continue
             for dr, dc in DIRECTIONS:
                 r, c = row + dr, col + dc
                 found = False
-                while 0 <= r < ROWS and 0 <= c < COLS and board[r][c] == opponent:
+                while 0 <= r < rows and 0 <= c < cols and board[r][c] == opponent:
                     found = True
                     r += dr
                     c += dc
-                if found and 0 <= r < ROWS and 0 <= c < COLS and board[r][c] == color:
+                if found and 0 <= r < rows and 0 <= c < cols and board[r][c] == color:
                     moves.append((row, col))
                     break
     return moves
 
 
 def place_piece(board, row, col, color):
+    rows, cols = len(board), len(board[0])
     opponent = "white" if color == "black" else "black"
     new_board = [r[:] for r in board]
     new_board[row][col] = color
     for dr, dc in DIRECTIONS:
         pieces = []
         r, c = row + dr, col + dc
-        while 0 <= r < ROWS and 0 <= c < COLS and new_board[r][c] == opponent:
+        while 0 <= r < rows and 0 <= c < cols and new_board[r][c] == opponent:
             pieces.append((r, c))
             r += dr
             c += dc
-        if pieces and 0 <= r < ROWS and 0 <= c < COLS and new_board[r][c] == color:
+        if pieces and 0 <= r < rows and 0 <= c < cols and new_board[r][c] == color:
             for pr, pc in pieces:
                 new_board[pr][pc] = color
     return new_board
@@ -95,6 +153,7 @@ def count_pieces(board, color):
 cache = {}
 eval_table = {}
 white_move_table = {}
+black_move_table = {}
 
 
 def minimax(board, turn):
@@ -122,11 +181,17 @@ def minimax(board, turn):
 
     if turn == "black":
         best = -999
+        best_move = None
         for row, col in moves:
             new_board = place_piece(board, row, col, "black")
-            best = max(best, minimax(new_board, "white"))
+            val = minimax(new_board, "white")
+            if val > best:
+                best = val
+                best_move = (row, col)
         cache[key] = best
         eval_table[key] = best
+        if best_move is not None:
+            black_move_table[encode_board(board)] = list(best_move)
         return best
     else:
         best = 999
@@ -144,38 +209,67 @@ def minimax(board, turn):
         return best
 
 
+def write_file(path, data, mode):
+    with open(path, mode) as f:
+        f.write(data)
+    print(f"{path} ({len(data) / (1024 * 1024):.1f} MB)")
+
+
 def main():
-    print("Computing minimax evaluation for all reachable states...")
-    root_value = minimax(INITIAL_BOARD, "black")
+    parser = argparse.ArgumentParser(description=__doc__, formatter_class=argparse.RawDescriptionHelpFormatter)
+    parser.add_argument("--format", choices=["binary", "json", "both"], default="both")
+    parser.add_argument("--variant", choices=sorted(INITIAL_BOARDS), default="6x6")
+    args = parser.parse_args()
+
+    initial_board = INITIAL_BOARDS[args.variant]
+    rows, cols = len(initial_board), len(initial_board[0])
+    # constants.ts の getPrebuiltTablePath と同じ名前にする
+    suffix = "" if args.variant == "6x6" else f"-{args.variant}"
+
+    print(f"Computing minimax evaluation for all reachable states ({args.variant})...")
+    root_value = minimax(initial_board, "black")
     print(f"Root value (black - white): {root_value}")
     print(f"Total states evaluated: {len(eval_table)}")
     print(f"White move states: {len(white_move_table)}")
+    print(f"Black move states: {len(black_move_table)}")
+
+    if args.format in ("binary", "both"):
+        # 最善手は手番付きのキーで1つのテーブルにまとめ、着手マスを row * cols + col で持つ
+        move_entries = {}
+        for turn_initial, move_table in (("w", white_move_table), ("b", black_move_table)):
+            for board, (row, col) in move_table.items():
+                move_entries[f"{turn_initial}:{board}"] = row * cols + col
+        write_file(
+            f"public/strange-othello-eval{suffix}.bin",
+            encode_table_file(TABLE_KIND_EVAL, eval_table, rows, cols, root_value, "black", len(eval_table)),
+            "wb",
+        )
+        write_file(
+            f"public/strange-othello-table{suffix}.bin",
+            encode_table_file(TABLE_KIND_MOVE, move_entries, rows, cols, root_value, "black", len(eval_table)),
+            "wb",
+        )
+
+    if args.format in ("json", "both"):
+        # 評価値テーブル
+        eval_output = {
+            "rootValue": root_value,
+            "evalTable": eval_table,
+            "stateCount": len(eval_table),
+        }
+        write_file(f"public/strange-othello-eval{suffix}.json", json.dumps(eval_output), "w")
 
-    # 評価値テーブル
-    eval_output = {
-        "rootValue": root_value,
-        "evalTable": eval_table,
-        "stateCount": len(eval_table),
-    }
-    eval_path = "public/strange-othello-eval.json"
-    with open(eval_path, "w") as f:
-        json.dump(eval_output, f)
-    eval_size = len(json.dumps(eval_output)) / (1024 * 1024)
-    print(f"Eval table written to {eval_path} ({eval_size:.1f} MB)")
-
-    # 白の最善手テーブル
-    solution_output = {
-        "initialTurn": "black",
-        "rootValue": root_value,
-        "whiteMoveTable": white_move_table,
-        "visitedStateCount": len(eval_table),
-        "whiteStateCount": len(white_move_table),
-    }
-    solution_path = "public/strange-othello-table.json"
-    with open(solution_path, "w") as f:
-        json.dump(solution_output, f)
-    sol_size = len(json.dumps(solution_output)) / (1024 * 1024)
-    print(f"Solution table written to {solution_path} ({sol_size:.1f} MB)")
+        # 黒・白の最善手テーブル
+        solution_output = {
+            "initialTurn": "black",
+            "rootValue": root_value,
+            "whiteMoveTable": white_move_table,
+            "blackMoveTable": black_move_table,
+            "visitedStateCount": len(eval_table),
+            "whiteStateCount": len(white_move_table),
+            "blackStateCount": len(black_move_table),
+        }
+        write_file(f"public/strange-othello-table{suffix}.json", json.dumps(solution_output), "w")
 
 
 if __name__ == "__main__":
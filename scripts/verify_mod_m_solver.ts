@@ -0,0 +1,19 @@
+/**
+ * mod M ゲームの読み切りを、ARC 185 A の結論と突き合わせるスクリプト。
+ *
+ * 1 ≤ N ≤ --max-n、N < M ≤ --max-m のすべての組と先手の選び方について、最初の局面を読み切った勝者が
+ * 「N(N + 1) を M で割った余りが 1〜N なら後手の勝ち」という結論と一致することを確かめる。
+ *
+ *   pnpm verify:mod-m-solver -- --max-n 12 --max-m 100
+ */
+import { verifyModMSolver } from "../src/features/mod-m/verification"
+import { log, readNumberOption, reportProblems } from "./cli"
+
+const maxN = readNumberOption("--max-n", 10)
+const maxM = readNumberOption("--max-m", 60)
+
+log(`Verifying mod M solver (N up to ${maxN}, M up to ${maxM})...`)
+const { checkedConfigCount, mismatches } = verifyModMSolver({ maxN, maxM })
+log(`Configs checked: ${checkedConfigCount}`)
+
+reportProblems(mismatches, "Mismatches", "All configs matched")
@@ -0,0 +1,33 @@
+/**
+ * 駒取りゲームの AI を、読み切れる範囲のすべての局面で確かめるスクリプト。
+ *
+ * 各ルール（通常 / misère と取れる数の決まり）について、1〜--max-piles 山、各山 0〜--max-size 個の
+ * すべての並びを読み切り、AI が必勝の局面を手放さないことと、定理による判定が読み切りと一致することを確かめる。
+ *
+ *   pnpm verify:piece-taking-ai -- --max-piles 4 --max-size 8
+ */
+import { DEFAULT_TAKE_RULES } from "../src/features/piece-taking/constants"
+import type { PieceTakingTakeRule } from "../src/features/piece-taking/types"
+import { verifyPieceTakingAI } from "../src/features/piece-taking/verification"
+import { log, readNumberOption, reportProblems } from "./cli"
+
+const TAKE_RULES: PieceTakingTakeRule[] = [
+  ...Object.values(DEFAULT_TAKE_RULES),
+  { type: "atMost", max: 1 },
+  { type: "subtraction", amounts: [2, 3] },
+  { type: "subtraction", amounts: [1, 2, 5] },
+]
+
+const maxPileCount = readNumberOption("--max-piles", 3)
+const maxPileSize = readNumberOption("--max-size", 7)
+
+log(`Verifying piece-taking AI (up to ${maxPileCount} piles of ${maxPileSize})...`)
+const { checkedPositionCount, failures } = verifyPieceTakingAI({
+  maxPileCount,
+  maxPileSize,
+  takeRules: TAKE_RULES,
+  playRules: ["normal", "misere"],
+})
+log(`Positions checked: ${checkedPositionCount}`)
+
+reportProblems(failures, "Failures", "All positions passed")
@@ -3,7 +3,10 @@ import { BrowserRouter, Route, Routes } from "react-router-dom"
 import { appTheme } from "./app/theme"
 import HomePage from "./features/home/HomePage"
 import PieceTakingGame from "./pages/PieceTakingGame"
+import PieceTakingPuzzle from "./pages/PieceTakingPuzzle"
 import StrangeOthello from "./pages/StrangeOthello"
+import StrangeOthelloEditor from "./pages/StrangeOthelloEditor"
+import CustomStrangeOthello from "./pages/CustomStrangeOthello"
 import ModMGame from "./pages/ModMGame"
 
 export default function App() {
@@ -14,7 +17,10 @@ export default function App() {
         <Routes>
           <Route path="/" element={<HomePage />} />
           <Route path="/piece-taking" element={<PieceTakingGame />} />
+          <Route path="/piece-taking/puzzle" element={<PieceTakingPuzzle />} />
           <Route path="/strange-othello" element={<StrangeOthello />} />
+          <Route path="/strange-othello/editor" element={<StrangeOthelloEditor />} />
+          <Route path="/strange-othello/custom/:positionId" element={<CustomStrangeOthello />} />
           <Route path="/mod-m" element={<ModMGame />} />
         </Routes>
       </BrowserRouter>
@@ -0,0 +1,56 @@
+import { useState } from "react"
+import { Box, Button, Paper, TextField, Typography } from "@mui/material"
+import { parseRandomSeed } from "../utils/seededRandom"
+import { SECONDARY_BUTTON_SX } from "./buttonStyles"
+
+interface RandomSeedPanelProps {
+  // 今の対局を始めたときの seed
+  seed: number
+  onStart: (seed: number) => void
+}
+
+// 対局の seed を表示し、人から聞いた seed を入力して同じ対局を始められるようにする
+export default function RandomSeedPanel({ seed, onStart }: RandomSeedPanelProps) {
+  const [seedText, setSeedText] = useState("")
+  const inputSeed = parseRandomSeed(seedText)
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 1 }}>
+      <Typography variant="body2" sx={{ color: "text.secondary" }}>
+        この対局の seed:{" "}
+        <Box component="span" sx={{ color: "text.primary", fontFamily: "monospace", fontWeight: 600 }}>
+          {seed}
+        </Box>
+      </Typography>
+      <Typography variant="caption" sx={{ color: "text.secondary" }}>
+        同じ設定・同じ seed で同じ手を指すと、AI の手も含めて同じ対局になります
+      </Typography>
+      <Box
+        sx={{
+          display: "flex",
+          alignItems: { xs: "stretch", sm: "flex-start" },
+          gap: 1,
+          flexDirection: { xs: "column", sm: "row" },
+        }}
+      >
+        <TextField
+          size="small"
+          label="seed を入力"
+          value={seedText}
+          onChange={(event) => setSeedText(event.target.value)}
+          error={seedText !== "" && inputSeed === null}
+          helperText={seedText !== "" && inputSeed === null ? "0〜4294967295 の整数を入力してください" : undefined}
+        />
+        <Button
+          variant="outlined"
+          size="small"
+          onClick={() => inputSeed !== null && onStart(inputSeed)}
+          disabled={inputSeed === null}
+          sx={{ ...SECONDARY_BUTTON_SX, py: 1 }}
+        >
+          この seed で始める
+        </Button>
+      </Box>
+    </Paper>
+  )
+}
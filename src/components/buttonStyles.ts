@@ -0,0 +1,11 @@
+// 各ゲーム画面の「1手戻る」「タイトルへ」などの控えめなボタン
+export const SECONDARY_BUTTON_SX = {
+  borderRadius: 10,
+  px: 3,
+  py: 0.5,
+  color: "text.secondary",
+  borderColor: "divider",
+  fontSize: "0.85rem",
+  "&:hover": { borderColor: "text.secondary" },
+  width: { xs: "100%", sm: "auto" },
+}
@@ -0,0 +1,48 @@
+import { Box, Paper, Typography } from "@mui/material"
+import { CARD_VERDICT_LABELS } from "./constants"
+import type { ModMAnalysis, ModMCardVerdict, ModMGameState } from "./types"
+
+const CARD_VERDICT_DESCRIPTIONS: Record<ModMCardVerdict, string> = {
+  winning: "出せば必ず勝てる",
+  losing: "相手が最善を尽くすと負ける",
+  fatal: "合計が倍数になりすぐ負ける",
+}
+
+export default function ModMAnalysisPanel({ gameState, analysis }: { gameState: ModMGameState; analysis: ModMAnalysis }) {
+  const turnLabel = gameState.currentTurn === "player" ? "あなた" : "AI"
+  const winnerLabel = analysis.perfectPlayWinner === "player" ? "あなた" : "AI"
+  const hand = gameState.currentTurn === "player" ? gameState.playerCards : gameState.aiCards
+  const fatalValues = [
+    ...new Set(hand.filter((card) => analysis.cardVerdicts.get(card.id) === "fatal").map((card) => card.value)),
+  ]
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 1 }}>
+      <Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+        <Typography variant="body2" sx={{ color: "text.secondary", fontWeight: 500 }}>
+          解析（{turnLabel}の手番）
+        </Typography>
+        <Typography
+          variant="body2"
+          sx={{ fontWeight: 700, color: analysis.perfectPlayWinner === "player" ? "#059669" : "#dc2626" }}
+        >
+          最善を尽くすと{winnerLabel}の勝ち
+        </Typography>
+      </Box>
+      <Typography variant="caption" sx={{ color: "text.secondary" }}>
+        合計 {gameState.sum} を {gameState.m} で割った余りは {analysis.sumMod} です。
+        {fatalValues.length > 0 && `${fatalValues.join("、")} を出すと ${gameState.m} の倍数になります`}
+      </Typography>
+      <Box sx={{ display: "flex", flexWrap: "wrap", columnGap: 2 }}>
+        {(Object.keys(CARD_VERDICT_LABELS) as ModMCardVerdict[]).map((verdict) => (
+          <Typography key={verdict} variant="caption" sx={{ color: "text.secondary" }}>
+            <Box component="span" sx={{ color: CARD_VERDICT_LABELS[verdict].color, fontWeight: 700 }}>
+              {CARD_VERDICT_LABELS[verdict].label}
+            </Box>
+            : {CARD_VERDICT_DESCRIPTIONS[verdict]}
+          </Typography>
+        ))}
+      </Box>
+    </Paper>
+  )
+}
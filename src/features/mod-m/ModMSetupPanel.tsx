@@ -0,0 +1,257 @@
+import { useState } from "react"
+import { ArrowDownward, ArrowUpward } from "@mui/icons-material"
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material"
+import {
+  DECK_TYPE_LABELS,
+  DEFAULT_DECKS,
+  FIRST_TURN_LABELS,
+  getDeckValues,
+  MAX_CARD_VALUE,
+  MAX_CUSTOM_HAND_SIZE,
+  MAX_MOD_M_M,
+  MAX_MOD_M_N,
+  MIN_MOD_M_N,
+  MOD_M_PRESETS,
+} from "./constants"
+import { parseCardValues, validateModMConfig } from "./logic"
+import type { ModMConfig, ModMDeck, ModMPlayer } from "./types"
+
+function NumberStepper({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string
+  value: number
+  min: number
+  max: number
+  onChange: (value: number) => void
+}) {
+  return (
+    <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+      <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500, minWidth: 24 }}>
+        {label}
+      </Typography>
+      <IconButton size="small" onClick={() => onChange(value - 1)} disabled={value <= min}>
+        <ArrowDownward fontSize="small" sx={{ color: "text.secondary" }} />
+      </IconButton>
+      <Typography variant="body1" sx={{ mx: 1, minWidth: 32, textAlign: "center", color: "text.primary" }}>
+        {value}
+      </Typography>
+      <IconButton size="small" onClick={() => onChange(value + 1)} disabled={value >= max}>
+        <ArrowUpward fontSize="small" sx={{ color: "text.secondary" }} />
+      </IconButton>
+    </Box>
+  )
+}
+
+interface ModMSetupPanelProps {
+  initialConfig: ModMConfig
+  onStart: (config: ModMConfig) => void
+}
+
+export default function ModMSetupPanel({ initialConfig, onStart }: ModMSetupPanelProps) {
+  const [config, setConfig] = useState<ModMConfig>(initialConfig)
+  // 入力途中の「1, 2,」のような文字列を残すため、手札の入力欄は文字列で持つ
+  const [handTexts, setHandTexts] = useState(() => {
+    const { playerValues, aiValues } = getDeckValues(
+      initialConfig.deck.type === "custom" ? initialConfig.deck : DEFAULT_DECKS.custom,
+    )
+    return { player: playerValues.join(", "), ai: aiValues.join(", ") }
+  })
+  const { deck } = config
+  const errors = validateModMConfig(config)
+  const presetIndex =
+    deck.type === "standard"
+      ? MOD_M_PRESETS.findIndex((preset) => preset.n === deck.n && preset.m === config.m)
+      : -1
+
+  const handleDeckTypeChange = (type: ModMDeck["type"]) => {
+    setConfig((previousConfig) => ({
+      ...previousConfig,
+      deck:
+        type === "custom"
+          ? { type, playerValues: parseCardValues(handTexts.player), aiValues: parseCardValues(handTexts.ai) }
+          : DEFAULT_DECKS.standard,
+    }))
+  }
+
+  const handleHandTextChange = (owner: ModMPlayer, text: string) => {
+    const nextHandTexts = { ...handTexts, [owner]: text }
+    setHandTexts(nextHandTexts)
+    setConfig((previousConfig) => ({
+      ...previousConfig,
+      deck: {
+        type: "custom",
+        playerValues: parseCardValues(nextHandTexts.player),
+        aiValues: parseCardValues(nextHandTexts.ai),
+      },
+    }))
+  }
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 2 }}>
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+          手札の決め方
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={deck.type}
+          onChange={(_, value: ModMDeck["type"] | null) => value && handleDeckTypeChange(value)}
+        >
+          {(Object.keys(DECK_TYPE_LABELS) as ModMDeck["type"][]).map((type) => (
+            <ToggleButton key={type} value={type} sx={{ px: 1.5 }}>
+              {DECK_TYPE_LABELS[type]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {deck.type === "standard" ? (
+        <>
+          <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+            <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+              よく使う設定
+            </Typography>
+            <ToggleButtonGroup
+              size="small"
+              exclusive
+              value={presetIndex >= 0 ? presetIndex : null}
+              onChange={(_, value: number | null) =>
+                value !== null &&
+                setConfig((previousConfig) => ({
+                  ...previousConfig,
+                  deck: { type: "standard", n: MOD_M_PRESETS[value].n },
+                  m: MOD_M_PRESETS[value].m,
+                }))
+              }
+              sx={{ flexWrap: "wrap" }}
+            >
+              {MOD_M_PRESETS.map((preset, index) => (
+                <ToggleButton key={preset.label} value={index} sx={{ px: 1.5 }}>
+                  {preset.label}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+            <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+              カードの枚数 N と割る数 M（1 ≤ N &lt; M、N は{MAX_MOD_M_N}以下、M は{MAX_MOD_M_M}以下）
+            </Typography>
+            <NumberStepper
+              label="N"
+              value={deck.n}
+              min={MIN_MOD_M_N}
+              max={MAX_MOD_M_N}
+              onChange={(n) => setConfig((previousConfig) => ({ ...previousConfig, deck: { type: "standard", n } }))}
+            />
+            <NumberStepper
+              label="M"
+              value={config.m}
+              min={deck.n + 1}
+              max={MAX_MOD_M_M}
+              onChange={(m) => setConfig((previousConfig) => ({ ...previousConfig, m }))}
+            />
+            <Typography variant="caption" sx={{ color: "text.secondary" }}>
+              それぞれ 1〜{deck.n} のカードを1枚ずつ持ち、合計が {config.m} の倍数になるカードを出した方の負けです
+            </Typography>
+          </Box>
+        </>
+      ) : (
+        <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1.5 }}>
+          <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+            手札のカード（カンマか空白で区切る。同じ数を何枚入れても構いません）
+          </Typography>
+          <TextField
+            size="small"
+            fullWidth
+            label="あなたの手札"
+            value={handTexts.player}
+            onChange={(event) => handleHandTextChange("player", event.target.value)}
+          />
+          <TextField
+            size="small"
+            fullWidth
+            label="AI の手札"
+            value={handTexts.ai}
+            onChange={(event) => handleHandTextChange("ai", event.target.value)}
+          />
+          <NumberStepper
+            label="M"
+            value={config.m}
+            min={2}
+            max={MAX_MOD_M_M}
+            onChange={(m) => setConfig((previousConfig) => ({ ...previousConfig, m }))}
+          />
+          <Typography variant="caption" sx={{ color: "text.secondary" }}>
+            それぞれ1〜{MAX_CUSTOM_HAND_SIZE}枚、カードは1〜{MAX_CARD_VALUE}の整数です。枚数が違う場合、先に出し切った側は相手が出し切るまで待ちます
+          </Typography>
+        </Box>
+      )}
+
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+          先手
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={config.firstTurn}
+          onChange={(_, value: ModMPlayer | null) => value && setConfig((previousConfig) => ({ ...previousConfig, firstTurn: value }))}
+        >
+          {(Object.keys(FIRST_TURN_LABELS) as ModMPlayer[]).map((turn) => (
+            <ToggleButton key={turn} value={turn} sx={{ px: 1.5 }}>
+              {FIRST_TURN_LABELS[turn]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Typography variant="caption" sx={{ color: "text.secondary" }}>
+          両者がすべてのカードを出し切った場合は、先手の勝ちです
+        </Typography>
+      </Box>
+
+      {errors.length > 0 && (
+        <Alert severity="warning">
+          {errors.map((error) => (
+            <Box key={error}>{error}</Box>
+          ))}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "center" }}>
+        <Button
+          variant="contained"
+          onClick={() => onStart(config)}
+          disabled={errors.length > 0}
+          sx={{
+            borderRadius: 10,
+            px: 3,
+            py: 1,
+            backgroundColor: "#059669",
+            color: "#fff",
+            fontWeight: 600,
+            "&:hover": { backgroundColor: "#047857" },
+            width: { xs: "100%", sm: "auto" },
+          }}
+        >
+          この設定で始める
+        </Button>
+      </Box>
+    </Paper>
+  )
+}
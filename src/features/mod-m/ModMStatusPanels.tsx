@@ -33,7 +33,7 @@ export default function ModMStatusPanels({ gameState }: { gameState: ModMGameSta
           {gameState.aiCards.length > 0 ? (
             gameState.aiCards.map((card) => (
               <Box
-                key={card}
+                key={card.id}
                 sx={{
                   width: { xs: 48, sm: 56 },
                   height: { xs: 68, sm: 80 },
@@ -49,7 +49,7 @@ export default function ModMStatusPanels({ gameState }: { gameState: ModMGameSta
                   boxShadow: "0 2px 4px rgba(220,38,38,0.2)",
                 }}
               >
-                {card}
+                {card.value}
               </Box>
             ))
           ) : (
@@ -32,7 +32,7 @@ export default function PlayedCardsPanel({ gameState }: { gameState: ModMGameSta
 
               return (
                 <Box
-                  key={`played-${index}`}
+                  key={card.id}
                   sx={{
                     width: { xs: 40, sm: 46 },
                     height: { xs: 56, sm: 64 },
@@ -47,7 +47,7 @@ export default function PlayedCardsPanel({ gameState }: { gameState: ModMGameSta
                     fontSize: { xs: "0.9rem", sm: "1rem" },
                   }}
                 >
-                  {card}
+                  {card.value}
                 </Box>
               )
             })
@@ -77,7 +77,7 @@ export default function PlayedCardsPanel({ gameState }: { gameState: ModMGameSta
             合計: {gameState.sum}
           </Typography>
           <Typography variant="caption" sx={{ color: "text.secondary", mb: 0.5 }}>
-            9で割った余り
+            {gameState.m}で割った余り
           </Typography>
           <Box
             sx={{
@@ -1,5 +1,6 @@
 import { Box, ButtonBase, Paper, Typography } from "@mui/material"
-import type { ModMGameState } from "./types"
+import { CARD_VERDICT_LABELS } from "./constants"
+import type { ModMCardVerdict, ModMGameState } from "./types"
 
 const CARD_SX = {
   width: { xs: 48, sm: 56 },
@@ -15,10 +16,12 @@ const CARD_SX = {
 
 interface PlayerHandPanelProps {
   gameState: ModMGameState
-  onCardSelect: (card: number) => void
+  onCardSelect: (cardId: string) => void
+  // 解析モードでだけ渡す、各カードを出したときの結果
+  cardVerdicts?: Map<string, ModMCardVerdict>
 }
 
-export default function PlayerHandPanel({ gameState, onCardSelect }: PlayerHandPanelProps) {
+export default function PlayerHandPanel({ gameState, onCardSelect, cardVerdicts }: PlayerHandPanelProps) {
   const disabled = gameState.currentTurn !== "player" || gameState.gameOver
 
   return (
@@ -28,33 +31,43 @@ export default function PlayerHandPanel({ gameState, onCardSelect }: PlayerHandP
       </Typography>
       <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1.5, justifyContent: "center" }}>
         {gameState.playerCards.length > 0 ? (
-          gameState.playerCards.map((card) => (
-            <ButtonBase
-              key={card}
-              onClick={() => onCardSelect(card)}
-              disabled={disabled}
-              sx={{
-                ...CARD_SX,
-                backgroundColor: "#fff",
-                border: "2px solid #3b82f6",
-                color: "#1e40af",
-                boxShadow: "0 2px 4px rgba(59,130,246,0.15)",
-                ...(!disabled && {
-                  "&:hover": {
-                    transform: "translateY(-6px)",
-                    boxShadow: "0 6px 16px rgba(59,130,246,0.25)",
-                    borderColor: "#2563eb",
-                  },
-                }),
-                ...(disabled && {
-                  opacity: 0.5,
-                  cursor: "default",
-                }),
-              }}
-            >
-              {card}
-            </ButtonBase>
-          ))
+          gameState.playerCards.map((card) => {
+            const verdict = cardVerdicts?.get(card.id)
+
+            return (
+              <Box key={card.id} sx={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 0.5 }}>
+                <ButtonBase
+                  onClick={() => onCardSelect(card.id)}
+                  disabled={disabled}
+                  sx={{
+                    ...CARD_SX,
+                    backgroundColor: "#fff",
+                    border: "2px solid #3b82f6",
+                    color: "#1e40af",
+                    boxShadow: "0 2px 4px rgba(59,130,246,0.15)",
+                    ...(!disabled && {
+                      "&:hover": {
+                        transform: "translateY(-6px)",
+                        boxShadow: "0 6px 16px rgba(59,130,246,0.25)",
+                        borderColor: "#2563eb",
+                      },
+                    }),
+                    ...(disabled && {
+                      opacity: 0.5,
+                      cursor: "default",
+                    }),
+                  }}
+                >
+                  {card.value}
+                </ButtonBase>
+                {verdict && (
+                  <Typography variant="caption" sx={{ color: CARD_VERDICT_LABELS[verdict].color, fontWeight: 700 }}>
+                    {CARD_VERDICT_LABELS[verdict].label}
+                  </Typography>
+                )}
+              </Box>
+            )
+          })
         ) : (
           <Typography variant="caption" sx={{ color: "text.secondary" }}>
             手札がありません
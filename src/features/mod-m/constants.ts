@@ -1,33 +1,98 @@
-import type { ModMGameState, ModMSession } from "./types"
+import { createRandomSeed } from "../../utils/seededRandom"
+import type { ModMCard, ModMCardVerdict, ModMConfig, ModMDeck, ModMGameState, ModMPlayer, ModMSession } from "./types"
 
 export const MOD_M_STORAGE_KEY = "logic-game-challenge/mod-m"
-export const MOD_M_STORAGE_VERSION = 1
-export const MOD_M_N = 5
-export const MOD_M_M = 9
+export const MOD_M_STORAGE_VERSION = 7
 
-export function createInitialModMGameState(): ModMGameState {
-  const playerCards = Array.from({ length: MOD_M_N }, (_, index) => index + 1)
-  const aiCards = Array.from({ length: MOD_M_N }, (_, index) => index + 1)
+// ARC 185 A の制約は 1 ≤ N < M。手札が画面に並べられる範囲に絞る
+export const MIN_MOD_M_N = 1
+export const MAX_MOD_M_N = 12
+export const MAX_MOD_M_M = 100
+// 自由に決める手札の枚数と、カードに書ける数の上限
+export const MAX_CUSTOM_HAND_SIZE = 12
+export const MAX_CARD_VALUE = 99
+
+export const DEFAULT_MOD_M_CONFIG: ModMConfig = { deck: { type: "standard", n: 5 }, m: 9, firstTurn: "ai" }
+
+export const DECK_TYPE_LABELS: Record<ModMDeck["type"], string> = {
+  standard: "1〜N を1枚ずつ",
+  custom: "自由に決める",
+}
+
+// 手札の決め方を切り替えたときの初期値
+export const DEFAULT_DECKS: Record<ModMDeck["type"], ModMDeck> = {
+  standard: DEFAULT_MOD_M_CONFIG.deck,
+  custom: { type: "custom", playerValues: [1, 2, 2, 3, 5], aiValues: [1, 1, 3, 4, 4] },
+}
+
+export const FIRST_TURN_LABELS: Record<ModMPlayer, string> = {
+  player: "あなたが先手",
+  ai: "AIが先手",
+}
+
+// 制約 1 ≤ N < M の中で性質の違う組。先手・後手はそのまま残す
+export const MOD_M_PRESETS: { label: string; n: number; m: number }[] = [
+  { label: "標準（N = 5, M = 9）", n: 5, m: 9 },
+  { label: "最小（N = 1, M = 2）", n: 1, m: 2 },
+  { label: "M = N + 1（N = 6, M = 7）", n: 6, m: 7 },
+  { label: "M = 2N（N = 4, M = 8）", n: 4, m: 8 },
+  { label: "M が大きい（N = 8, M = 40）", n: 8, m: 40 },
+]
+
+// 解析モードで手札に付ける印
+export const CARD_VERDICT_LABELS: Record<ModMCardVerdict, { label: string; color: string }> = {
+  winning: { label: "勝ち", color: "#059669" },
+  losing: { label: "負け", color: "#d97706" },
+  fatal: { label: "即負け", color: "#dc2626" },
+}
+
+export function getDeckValues(deck: ModMDeck) {
+  if (deck.type === "custom") {
+    return { playerValues: deck.playerValues, aiValues: deck.aiValues }
+  }
+
+  const values = Array.from({ length: deck.n }, (_, index) => index + 1)
+  return { playerValues: values, aiValues: values }
+}
+
+// 小さい順に並べ、持ち主と並び順から id を付ける
+function createHand(owner: ModMPlayer, values: number[]): ModMCard[] {
+  return [...values].sort((a, b) => a - b).map((value, index) => ({ id: `${owner}-${index}`, value }))
+}
+
+export function createInitialModMGameState(config: ModMConfig = DEFAULT_MOD_M_CONFIG): ModMGameState {
+  const { playerValues, aiValues } = getDeckValues(config.deck)
 
   return {
-    n: MOD_M_N,
-    m: MOD_M_M,
-    playerCards,
-    aiCards,
+    m: config.m,
+    firstTurn: config.firstTurn,
+    playerCards: createHand("player", playerValues),
+    aiCards: createHand("ai", aiValues),
     playedCards: [],
     playedBy: [],
     sum: 0,
-    currentTurn: "ai",
+    currentTurn: config.firstTurn,
     gameOver: false,
     winner: null,
-    message: "AIのターンです...",
+    message: config.firstTurn === "player" ? "あなたのターンです。" : "AIのターンです...",
     lastMove: "",
   }
 }
 
-export function createInitialModMSession(): ModMSession {
+export function createInitialModMSession(
+  config: ModMConfig = DEFAULT_MOD_M_CONFIG,
+  phase: ModMSession["phase"] = "setup",
+  showAnalysis = false,
+  randomSeed = createRandomSeed(),
+): ModMSession {
   return {
-    gameState: createInitialModMGameState(),
+    phase,
+    config,
+    gameState: createInitialModMGameState(config),
     history: [],
+    showAnalysis,
+    initialRandomSeed: randomSeed,
+    randomSeed,
+    randomSeedHistory: [],
   }
 }
@@ -1,31 +1,70 @@
 import { Box, Button, Typography } from "@mui/material"
 import { Link } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
 import GamePageLayout from "../../components/GamePageLayout"
+import RandomSeedPanel from "../../components/RandomSeedPanel"
 import ResultOverlay from "../../components/ResultOverlay"
+import ModMAnalysisPanel from "./ModMAnalysisPanel"
+import ModMSetupPanel from "./ModMSetupPanel"
 import ModMStatusPanels from "./ModMStatusPanels"
 import PlayedCardsPanel from "./PlayedCardsPanel"
 import PlayerHandPanel from "./PlayerHandPanel"
 import { useModMGame } from "./useModMGame"
 
 export default function ModMGamePage() {
-  const { gameState, canUndo, handleCardSelect, handleUndo, handleRestart } = useModMGame()
+  const {
+    phase,
+    config,
+    gameState,
+    analysis,
+    initialRandomSeed,
+    canUndo,
+    handleTitleClick,
+    handleCardSelect,
+    handleUndo,
+    handleStart,
+    handleOpenSetup,
+    handleRestart,
+    handleQuit,
+    handleStartWithSeed,
+  } = useModMGame()
 
   return (
     <GamePageLayout
       title="mod Mゲーム"
+      onTitleClick={handleTitleClick}
       rules={
         <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
-          1. プレイヤーと AIが交互にカードを出します。（今回はプレイヤーは後手です。）
+          1. プレイヤーと AI は
+          {config.deck.type === "standard"
+            ? `それぞれ 1〜${config.deck.n} のカードを1枚ずつ`
+            : "設定した手札（同じ数のカードも可）を"}
+          持ち、交互にカードを出します。手札が尽きた側は飛ばします。（今回はプレイヤーは
+          {config.firstTurn === "player" ? "先手" : "後手"}です。）
           <br />
-          2. カードを出したときに、合計が9の倍数になったら、そのカードを出した人の負けです。
+          2. カードを出したときに、合計が{config.m}の倍数になったら、そのカードを出した人の負けです。
           <br />
-          3. 両者がすべてのカードを出し切った場合は、AIの勝ちです。
+          3. 両者がすべてのカードを出し切った場合は、先手の{config.firstTurn === "player" ? "プレイヤー" : "AI"}の勝ちです。
+          <br />
+          4. 手札（1〜N を1枚ずつ、または自由に決めた数）と M、先手・後手は設定画面で選べます。
         </Typography>
       }
     >
-      <ModMStatusPanels gameState={gameState} />
-      <PlayedCardsPanel gameState={gameState} />
-      <PlayerHandPanel gameState={gameState} onCardSelect={handleCardSelect} />
+      {phase === "setup" ? (
+        <ModMSetupPanel initialConfig={config} onStart={handleStart} />
+      ) : (
+        <>
+          <ModMStatusPanels gameState={gameState} />
+          {analysis && <ModMAnalysisPanel gameState={gameState} analysis={analysis} />}
+          <PlayedCardsPanel gameState={gameState} />
+          <PlayerHandPanel
+            gameState={gameState}
+            onCardSelect={handleCardSelect}
+            cardVerdicts={gameState.currentTurn === "player" ? analysis?.cardVerdicts : undefined}
+          />
+          <RandomSeedPanel seed={initialRandomSeed} onStart={handleStartWithSeed} />
+        </>
+      )}
 
       <Box
         sx={{
@@ -36,47 +75,30 @@ export default function ModMGamePage() {
           width: { xs: "100%", sm: "auto" },
         }}
       >
-        <Button
-          variant="outlined"
-          size="small"
-          onClick={handleUndo}
-          disabled={!canUndo}
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
-        >
-          1手戻る
-        </Button>
+        {phase === "playing" && (
+          <>
+            <Button variant="outlined" size="small" onClick={handleUndo} disabled={!canUndo} sx={SECONDARY_BUTTON_SX}>
+              1手戻る
+            </Button>
+            <Button variant="outlined" size="small" onClick={handleOpenSetup} sx={SECONDARY_BUTTON_SX}>
+              設定を変える
+            </Button>
+          </>
+        )}
         <Button
           component={Link}
           to="/"
-          onClick={handleRestart}
+          onClick={handleQuit}
           variant="outlined"
           size="small"
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
+          sx={SECONDARY_BUTTON_SX}
         >
           タイトルへ
         </Button>
       </Box>
 
       <ResultOverlay
-        open={gameState.gameOver}
+        open={phase === "playing" && gameState.gameOver}
         playerWon={gameState.winner === "player"}
         resultLabel={gameState.winner === "player" ? "あなたの勝ちです！" : "AI の勝ちです"}
         onRestart={handleRestart}
@@ -1,33 +1,79 @@
-import type { ModMGameState, ModMPlayer } from "./types"
+import { MAX_CARD_VALUE, MAX_CUSTOM_HAND_SIZE, MAX_MOD_M_M, MAX_MOD_M_N, MIN_MOD_M_N } from "./constants"
+import { getModMWinningCards } from "./solver"
+import type { ModMCard, ModMConfig, ModMGameState, ModMPlayer } from "./types"
 
-interface MinimaxResult {
-  score: number
-  card?: number
+function pickRandomCard(cards: ModMCard[], random = Math.random) {
+  return cards[Math.floor(random() * cards.length)]
 }
 
-function pickRandomCard(cards: number[], random = Math.random) {
-  return cards[Math.floor(random() * cards.length)]
+// 「1, 2, 2, 3」のようにカンマや空白で区切った数を読む。数でないものは NaN のまま残して検証で弾く
+export function parseCardValues(text: string) {
+  return text
+    .split(/[\s,、]+/)
+    .filter((token) => token !== "")
+    .map(Number)
 }
 
-export function playCard(state: ModMGameState, card: number, player: ModMPlayer): ModMGameState {
+function validateHandValues(label: string, values: number[]) {
+  const errors: string[] = []
+
+  if (values.length < 1 || values.length > MAX_CUSTOM_HAND_SIZE) {
+    errors.push(`${label}の手札は1〜${MAX_CUSTOM_HAND_SIZE}枚にしてください`)
+  }
+
+  if (values.some((value) => !Number.isInteger(value) || value < 1 || value > MAX_CARD_VALUE)) {
+    errors.push(`${label}の手札のカードは1〜${MAX_CARD_VALUE}の整数にしてください`)
+  }
+
+  return errors
+}
+
+export function validateModMConfig(config: ModMConfig) {
+  const { deck } = config
+
+  if (deck.type === "custom") {
+    const errors = [...validateHandValues("あなた", deck.playerValues), ...validateHandValues("AI", deck.aiValues)]
+
+    if (!Number.isInteger(config.m) || config.m < 2 || config.m > MAX_MOD_M_M) {
+      errors.push(`M は2〜${MAX_MOD_M_M}にしてください`)
+    }
+
+    return errors
+  }
+
+  const errors: string[] = []
+
+  if (!Number.isInteger(deck.n) || deck.n < MIN_MOD_M_N || deck.n > MAX_MOD_M_N) {
+    errors.push(`N は${MIN_MOD_M_N}〜${MAX_MOD_M_N}にしてください`)
+  }
+
+  if (!Number.isInteger(config.m) || config.m <= deck.n || config.m > MAX_MOD_M_M) {
+    errors.push(`M は N より大きく、${MAX_MOD_M_M}以下にしてください`)
+  }
+
+  return errors
+}
+
+export function playCard(state: ModMGameState, cardId: string, player: ModMPlayer): ModMGameState {
   if (state.currentTurn !== player || state.gameOver) {
     return state
   }
 
   const cards = player === "player" ? state.playerCards : state.aiCards
+  const card = cards.find((currentCard) => currentCard.id === cardId)
 
-  if (!cards.includes(card)) {
+  if (!card) {
     return state
   }
 
   const nextState: ModMGameState = {
     ...state,
-    playerCards: player === "player" ? state.playerCards.filter((currentCard) => currentCard !== card) : state.playerCards,
-    aiCards: player === "ai" ? state.aiCards.filter((currentCard) => currentCard !== card) : state.aiCards,
+    playerCards: player === "player" ? state.playerCards.filter((currentCard) => currentCard.id !== cardId) : state.playerCards,
+    aiCards: player === "ai" ? state.aiCards.filter((currentCard) => currentCard.id !== cardId) : state.aiCards,
     playedCards: [...state.playedCards, card],
     playedBy: [...state.playedBy, player],
-    sum: state.sum + card,
-    lastMove: player === "player" ? `あなたは ${card} を出しました。` : `AIは ${card} を出しました。`,
+    sum: state.sum + card.value,
+    lastMove: player === "player" ? `あなたは ${card.value} を出しました。` : `AIは ${card.value} を出しました。`,
   }
 
   if (nextState.sum % nextState.m === 0) {
@@ -44,16 +90,23 @@ export function playCard(state: ModMGameState, card: number, player: ModMPlayer)
     }
   }
 
+  // 両者が出し切ったら先手の勝ち
   if (nextState.playerCards.length === 0 && nextState.aiCards.length === 0) {
     return {
       ...nextState,
       gameOver: true,
-      winner: "ai",
-      message: "すべてのカードを出し切りました。AIの勝ちです！",
+      winner: state.firstTurn,
+      message:
+        state.firstTurn === "player"
+          ? "すべてのカードを出し切りました。先手のあなたの勝ちです！"
+          : "すべてのカードを出し切りました。先手のAIの勝ちです。",
     }
   }
 
-  const currentTurn = player === "player" ? "ai" : "player"
+  // 手札の枚数が違うと片方だけ先に出し切ることがある。そのときは残っている方が続けて出す
+  const opponent = player === "player" ? "ai" : "player"
+  const opponentCards = opponent === "player" ? nextState.playerCards : nextState.aiCards
+  const currentTurn = opponentCards.length > 0 ? opponent : player
 
   return {
     ...nextState,
@@ -62,93 +115,19 @@ export function playCard(state: ModMGameState, card: number, player: ModMPlayer)
   }
 }
 
-function minimax(
-  playerCards: number[],
-  aiCards: number[],
-  sum: number,
-  modulus: number,
-  isMaximizing: boolean,
-  random: () => number,
-  depth = 0,
-  alpha = Number.NEGATIVE_INFINITY,
-  beta = Number.POSITIVE_INFINITY,
-): MinimaxResult {
-  if (playerCards.length === 0 && aiCards.length === 0) {
-    return { score: -1 }
-  }
-
-  const currentCards = isMaximizing ? aiCards : playerCards
-
-  if (currentCards.length === 0) {
-    return minimax(playerCards, aiCards, sum, modulus, !isMaximizing, random, depth + 1, alpha, beta)
-  }
-
-  if (isMaximizing) {
-    let maxScore = Number.NEGATIVE_INFINITY
-    let bestCard: number | undefined
-
-    for (const card of aiCards) {
-      const nextSum = sum + card
-
-      if (nextSum % modulus === 0) {
-        continue
-      }
-
-      const nextAiCards = aiCards.filter((currentCard) => currentCard !== card)
-      const result = minimax(playerCards, nextAiCards, nextSum, modulus, false, random, depth + 1, alpha, beta)
-
-      if (result.score > maxScore) {
-        maxScore = result.score
-        bestCard = card
-      }
-
-      alpha = Math.max(alpha, maxScore)
-      if (beta <= alpha) {
-        break
-      }
-    }
-
-    return bestCard === undefined
-      ? { score: -10 + depth, card: pickRandomCard(aiCards, random) }
-      : { score: maxScore, card: bestCard }
-  }
-
-  let minScore = Number.POSITIVE_INFINITY
-  let bestCard: number | undefined
-
-  for (const card of playerCards) {
-    const nextSum = sum + card
-
-    if (nextSum % modulus === 0) {
-      continue
-    }
-
-    const nextPlayerCards = playerCards.filter((currentCard) => currentCard !== card)
-    const result = minimax(nextPlayerCards, aiCards, nextSum, modulus, true, random, depth + 1, alpha, beta)
-
-    if (result.score < minScore) {
-      minScore = result.score
-      bestCard = card
-    }
-
-    beta = Math.min(beta, minScore)
-    if (beta <= alpha) {
-      break
-    }
+// 必勝になるカードがあればその中から選ぶ。負けの局面では、合計を m の倍数にしないカードを出して相手のミスを待つ
+// 出すカードの id を返す
+export function chooseAiCard(state: ModMGameState, random = Math.random) {
+  if (state.aiCards.length === 0) {
+    return undefined
   }
 
-  return bestCard === undefined
-    ? { score: 10 - depth, card: pickRandomCard(playerCards, random) }
-    : { score: minScore, card: bestCard }
-}
-
-export function chooseAiCard(state: ModMGameState, random = Math.random) {
-  const safeMoves = state.aiCards.filter((card) => (state.sum + card) % state.m !== 0)
+  const winningCards = getModMWinningCards(state)
 
-  if (safeMoves.length > 0) {
-    const result = minimax(state.playerCards, safeMoves, state.sum, state.m, true, random)
-    return result.card ?? pickRandomCard(safeMoves, random)
+  if (winningCards.length > 0) {
+    return pickRandomCard(winningCards, random).id
   }
 
-  return state.aiCards.length > 0 ? pickRandomCard(state.aiCards, random) : undefined
+  const safeMoves = state.aiCards.filter((card) => (state.sum + card.value) % state.m !== 0)
+  return pickRandomCard(safeMoves.length > 0 ? safeMoves : state.aiCards, random).id
 }
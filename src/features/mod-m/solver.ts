@@ -0,0 +1,197 @@
+import type { ModMAnalysis, ModMCard, ModMCardVerdict, ModMGameState, ModMPlayer } from "./types"
+
+// 片方の手札の形。数ごとの枚数を混合基数の1つの整数（code）にまとめる
+interface HandShape {
+  // 手札に現れる数（小さい順）と、最初に持っていた枚数
+  values: number[]
+  limits: number[]
+  // values[i] の枚数の桁の重み
+  weights: number[]
+  // code が取りうる値の数
+  radix: number
+}
+
+interface SolverContext {
+  m: number
+  // 両者が出し切ったときに勝つ側
+  firstTurn: ModMPlayer
+  player: HandShape
+  ai: HandShape
+  cache: Map<number, boolean>
+}
+
+// 最初の手札と m と先手の組ごとに、読み切った局面を覚えておく
+const solutionCaches = new Map<string, Map<number, boolean>>()
+
+function getOpponent(turn: ModMPlayer): ModMPlayer {
+  return turn === "ai" ? "player" : "ai"
+}
+
+function createHandShape(deckValues: number[]): HandShape {
+  const values = [...new Set(deckValues)].sort((a, b) => a - b)
+  const limits = values.map((value) => deckValues.filter((deckValue) => deckValue === value).length)
+  const weights: number[] = []
+  let radix = 1
+
+  for (const limit of limits) {
+    weights.push(radix)
+    radix *= limit + 1
+  }
+
+  return { values, limits, weights, radix }
+}
+
+// 同じ数のカードはどれを出しても同じなので、数ごとの枚数だけで局面を表す
+function encodeHand(shape: HandShape, cards: ModMCard[]) {
+  return cards.reduce((code, card) => code + shape.weights[shape.values.indexOf(card.value)], 0)
+}
+
+function getCardCount(shape: HandShape, code: number, valueIndex: number) {
+  return Math.floor(code / shape.weights[valueIndex]) % (shape.limits[valueIndex] + 1)
+}
+
+// 手番側が必勝かどうか。合計そのものではなく m で割った余りだけで勝敗が決まる
+function solveHands(
+  context: SolverContext,
+  playerCode: number,
+  aiCode: number,
+  sumMod: number,
+  turn: ModMPlayer,
+): boolean {
+  const { m, firstTurn, cache } = context
+  const key = ((playerCode * context.ai.radix + aiCode) * m + sumMod) * 2 + (turn === "ai" ? 1 : 0)
+  const cached = cache.get(key)
+
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const shape = turn === "ai" ? context.ai : context.player
+  const handCode = turn === "ai" ? aiCode : playerCode
+  let result: boolean
+
+  if (handCode === 0) {
+    // 両者が出し切ったら先手の勝ち。自分だけ手札がなければ相手が続けて出す
+    result =
+      playerCode === 0 && aiCode === 0
+        ? turn === firstTurn
+        : !solveHands(context, playerCode, aiCode, sumMod, getOpponent(turn))
+  } else {
+    result = false
+
+    for (let valueIndex = 0; valueIndex < shape.values.length && !result; valueIndex += 1) {
+      const nextSumMod = (sumMod + shape.values[valueIndex]) % m
+
+      // 合計を m の倍数にするカードは出した時点で負け
+      if (getCardCount(shape, handCode, valueIndex) === 0 || nextSumMod === 0) {
+        continue
+      }
+
+      const nextHandCode = handCode - shape.weights[valueIndex]
+      result =
+        turn === "ai"
+          ? !solveHands(context, playerCode, nextHandCode, nextSumMod, getOpponent(turn))
+          : !solveHands(context, nextHandCode, aiCode, nextSumMod, getOpponent(turn))
+    }
+  }
+
+  cache.set(key, result)
+  return result
+}
+
+function getSolverContext(
+  playerDeckValues: number[],
+  aiDeckValues: number[],
+  m: number,
+  firstTurn: ModMPlayer,
+): SolverContext {
+  const player = createHandShape(playerDeckValues)
+  const ai = createHandShape(aiDeckValues)
+  const cacheKey = `${m}|${firstTurn}|${player.values.join(",")}:${player.limits.join(",")}|${ai.values.join(",")}:${ai.limits.join(",")}`
+  const cache = solutionCaches.get(cacheKey) ?? new Map<number, boolean>()
+  solutionCaches.set(cacheKey, cache)
+  return { m, firstTurn, player, ai, cache }
+}
+
+// 最初の手札は、今の手札とその側が出したカードを合わせたもの
+function getStateSolverContext(state: ModMGameState) {
+  const getDeckValues = (owner: ModMPlayer) =>
+    [
+      ...(owner === "ai" ? state.aiCards : state.playerCards),
+      ...state.playedCards.filter((_, index) => state.playedBy[index] === owner),
+    ].map((card) => card.value)
+
+  return getSolverContext(getDeckValues("player"), getDeckValues("ai"), state.m, state.firstTurn)
+}
+
+// 手番側が最善を尽くせば勝てるかどうか
+export function isModMWinningPosition(state: ModMGameState) {
+  const context = getStateSolverContext(state)
+
+  return solveHands(
+    context,
+    encodeHand(context.player, state.playerCards),
+    encodeHand(context.ai, state.aiCards),
+    state.sum % state.m,
+    state.currentTurn,
+  )
+}
+
+// 手番側が出せば必勝になるカードをすべて返す（小さい順）
+export function getModMWinningCards(state: ModMGameState): ModMCard[] {
+  const context = getStateSolverContext(state)
+  const playerCode = encodeHand(context.player, state.playerCards)
+  const aiCode = encodeHand(context.ai, state.aiCards)
+  const opponent = getOpponent(state.currentTurn)
+  const hand = state.currentTurn === "ai" ? state.aiCards : state.playerCards
+  const shape = state.currentTurn === "ai" ? context.ai : context.player
+
+  return [...hand]
+    .sort((a, b) => a.value - b.value)
+    .filter((card) => {
+      const nextSumMod = (state.sum + card.value) % state.m
+      const cardWeight = shape.weights[shape.values.indexOf(card.value)]
+
+      if (nextSumMod === 0) {
+        return false
+      }
+
+      return state.currentTurn === "ai"
+        ? !solveHands(context, playerCode, aiCode - cardWeight, nextSumMod, opponent)
+        : !solveHands(context, playerCode - cardWeight, aiCode, nextSumMod, opponent)
+    })
+}
+
+// 解析モード用に、今の余りと最善を尽くしたときの勝者、手番側の各カードの結果をまとめる
+export function analyzeModMPosition(state: ModMGameState): ModMAnalysis {
+  const hand = state.currentTurn === "ai" ? state.aiCards : state.playerCards
+  const winningCardIds = getModMWinningCards(state).map((card) => card.id)
+  const cardVerdicts = new Map<string, ModMCardVerdict>(
+    hand.map((card) => [
+      card.id,
+      (state.sum + card.value) % state.m === 0 ? "fatal" : winningCardIds.includes(card.id) ? "winning" : "losing",
+    ]),
+  )
+
+  return {
+    sumMod: state.sum % state.m,
+    perfectPlayWinner: isModMWinningPosition(state) ? state.currentTurn : getOpponent(state.currentTurn),
+    cardVerdicts,
+  }
+}
+
+// 最初の局面（お互い 1〜n を持ち、firstTurn が先に出す）から最善を尽くしたときの勝者
+export function solveModMWinner(n: number, m: number, firstTurn: ModMPlayer): ModMPlayer {
+  const values = Array.from({ length: n }, (_, index) => index + 1)
+  const context = getSolverContext(values, values, m, firstTurn)
+  return solveHands(context, context.player.radix - 1, context.ai.radix - 1, 0, firstTurn)
+    ? firstTurn
+    : getOpponent(firstTurn)
+}
+
+// ARC 185 A の結論。カードが2枚以上あるうちは m の倍数にするカードを避けられるので、勝敗は最後の2手で決まる。
+// 全カードの合計 n(n + 1) を m で割った余り r が 1〜n なら、後手は r のカードを最後まで残して先手の最後の1枚を負けにできる
+export function getModMWinnerByFormula(n: number, m: number, firstTurn: ModMPlayer): ModMPlayer {
+  const remainder = (n * (n + 1)) % m
+  return remainder >= 1 && remainder <= n ? getOpponent(firstTurn) : firstTurn
+}
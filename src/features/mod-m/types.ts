@@ -1,12 +1,33 @@
+import type { RandomSeedState } from "../../utils/seededRandom"
+
 export type ModMPlayer = "player" | "ai"
 export type ModMWinner = ModMPlayer | null
+export type ModMPhase = "setup" | "playing"
+
+// 配る手札。standard: お互い 1〜n を1枚ずつ、custom: それぞれ指定した数のカード（同じ数を何枚でも）
+export type ModMDeck =
+  | { type: "standard"; n: number }
+  | { type: "custom"; playerValues: number[]; aiValues: number[] }
+
+// 合計を m の倍数にした方の負け。両者が出し切ったら先手の勝ち
+export interface ModMConfig {
+  deck: ModMDeck
+  m: number
+  firstTurn: ModMPlayer
+}
+
+// 同じ数のカードを区別できるよう、1枚ずつ id を持たせる
+export interface ModMCard {
+  id: string
+  value: number
+}
 
 export interface ModMGameState {
-  n: number
   m: number
-  playerCards: number[]
-  aiCards: number[]
-  playedCards: number[]
+  firstTurn: ModMPlayer
+  playerCards: ModMCard[]
+  aiCards: ModMCard[]
+  playedCards: ModMCard[]
   playedBy: ModMPlayer[]
   sum: number
   currentTurn: ModMPlayer
@@ -16,7 +37,23 @@ export interface ModMGameState {
   lastMove: string
 }
 
-export interface ModMSession {
+// 手札のカードを出したときの結果。fatal は出した時点で合計が m の倍数になる
+export type ModMCardVerdict = "winning" | "losing" | "fatal"
+
+// 解析モードで表示する、読み切りによる局面の解析結果
+export interface ModMAnalysis {
+  sumMod: number
+  // お互いが最善を尽くしたときの勝者
+  perfectPlayWinner: ModMPlayer
+  // 手番側の手札の各カード（id）の結果
+  cardVerdicts: Map<string, ModMCardVerdict>
+}
+
+// seed は AI が勝ちのカードや負けないカードのどれを出すかを選ぶのに使う
+export interface ModMSession extends RandomSeedState {
+  phase: ModMPhase
+  config: ModMConfig
   gameState: ModMGameState
   history: ModMGameState[]
+  showAnalysis: boolean
 }
@@ -1,81 +1,162 @@
-import { useEffect } from "react"
+import { useEffect, useMemo, useRef } from "react"
 import { usePersistentState } from "../../hooks/usePersistentState"
+import { createSeededRandom } from "../../utils/seededRandom"
 import { createInitialModMSession, MOD_M_STORAGE_KEY, MOD_M_STORAGE_VERSION } from "./constants"
 import { chooseAiCard, playCard } from "./logic"
-import type { ModMSession } from "./types"
+import { analyzeModMPosition } from "./solver"
+import type { ModMConfig, ModMGameState, ModMSession } from "./types"
+
+// 戻り先は、あなたが最後に出す前の局面（history の中で一番新しい、あなたの手番の局面）
+function findUndoIndex(history: ModMGameState[]) {
+  for (let index = history.length - 1; index >= 0; index -= 1) {
+    if (history[index].currentTurn === "player") {
+      return index
+    }
+  }
+
+  return -1
+}
 
 export function useModMGame() {
-  const [session, setSession, resetSession] = usePersistentState<ModMSession>(
+  const [session, setSession] = usePersistentState<ModMSession>(
     MOD_M_STORAGE_KEY,
     createInitialModMSession,
     { version: MOD_M_STORAGE_VERSION },
   )
-  const { gameState, history } = session
+  const titleClickCount = useRef(0)
+  const titleClickTimer = useRef<ReturnType<typeof window.setTimeout> | null>(null)
+  const { phase, config, gameState, history, showAnalysis, initialRandomSeed, randomSeed } = session
+  const analysis = useMemo(
+    () => (showAnalysis && !gameState.gameOver ? analyzeModMPosition(gameState) : null),
+    [gameState, showAnalysis],
+  )
 
   useEffect(() => {
-    if (gameState.currentTurn !== "ai" || gameState.gameOver) {
+    return () => {
+      if (titleClickTimer.current) {
+        window.clearTimeout(titleClickTimer.current)
+      }
+    }
+  }, [])
+
+  // 相手の手札が尽きると AI が続けて出すので、手番ではなく局面が変わるたびに次の手を始める
+  useEffect(() => {
+    if (phase !== "playing" || gameState.currentTurn !== "ai" || gameState.gameOver) {
       return
     }
 
+    // 読み切りは重いので更新関数の外で一度だけ行い、その間に局面が変わっていなければ反映する
     const timerId = window.setTimeout(() => {
-      setSession((previousSession) => {
-        if (previousSession.gameState.currentTurn !== "ai" || previousSession.gameState.gameOver) {
-          return previousSession
-        }
+      const { random, getSeed } = createSeededRandom(randomSeed)
+      const chosenCardId = chooseAiCard(gameState, random)
 
-        const chosenCard = chooseAiCard(previousSession.gameState)
+      if (chosenCardId === undefined) {
+        return
+      }
 
-        if (chosenCard === undefined) {
-          return previousSession
-        }
+      const nextGameState = playCard(gameState, chosenCardId, "ai")
+      const nextRandomSeed = getSeed()
 
-        return {
-          gameState: playCard(previousSession.gameState, chosenCard, "ai"),
-          history: [...previousSession.history, previousSession.gameState],
-        }
-      })
+      setSession((previousSession) =>
+        previousSession.gameState === gameState
+          ? {
+              ...previousSession,
+              gameState: nextGameState,
+              history: [...previousSession.history, previousSession.gameState],
+              randomSeed: nextRandomSeed,
+              randomSeedHistory: [...previousSession.randomSeedHistory, previousSession.randomSeed],
+            }
+          : previousSession,
+      )
     }, 1000)
 
     return () => window.clearTimeout(timerId)
-  }, [gameState.currentTurn, gameState.gameOver, setSession])
+  }, [gameState, phase, randomSeed, setSession])
 
   return {
+    phase,
+    config,
     gameState,
-    canUndo: history.length >= 2,
-    handleCardSelect: (card: number) => {
+    analysis,
+    initialRandomSeed,
+    canUndo: findUndoIndex(history) >= 0,
+    // タイトルを5回続けて押すと解析モードを切り替える
+    handleTitleClick: () => {
+      titleClickCount.current += 1
+
+      if (titleClickTimer.current) {
+        window.clearTimeout(titleClickTimer.current)
+      }
+
+      if (titleClickCount.current >= 5) {
+        titleClickCount.current = 0
+        setSession((previousSession) => ({
+          ...previousSession,
+          showAnalysis: !previousSession.showAnalysis,
+        }))
+        return
+      }
+
+      titleClickTimer.current = window.setTimeout(() => {
+        titleClickCount.current = 0
+      }, 1000)
+    },
+    handleCardSelect: (cardId: string) => {
       setSession((previousSession) => {
-        const nextGameState = playCard(previousSession.gameState, card, "player")
+        const nextGameState = playCard(previousSession.gameState, cardId, "player")
 
         if (nextGameState === previousSession.gameState) {
           return previousSession
         }
 
         return {
+          ...previousSession,
           gameState: nextGameState,
           history: [...previousSession.history, previousSession.gameState],
+          randomSeedHistory: [...previousSession.randomSeedHistory, previousSession.randomSeed],
         }
       })
     },
     handleUndo: () => {
       setSession((previousSession) => {
-        if (previousSession.history.length < 2) {
-          return previousSession
-        }
-
-        const nextHistory = [...previousSession.history]
-        nextHistory.pop()
-        const restoredState = nextHistory.pop()
+        const undoIndex = findUndoIndex(previousSession.history)
 
-        if (!restoredState) {
+        if (undoIndex < 0) {
           return previousSession
         }
 
         return {
-          gameState: restoredState,
-          history: nextHistory,
+          ...previousSession,
+          gameState: previousSession.history[undoIndex],
+          history: previousSession.history.slice(0, undoIndex),
+          randomSeed: previousSession.randomSeedHistory[undoIndex],
+          randomSeedHistory: previousSession.randomSeedHistory.slice(0, undoIndex),
         }
       })
     },
-    handleRestart: () => resetSession(),
+    handleStart: (nextConfig: ModMConfig) => {
+      setSession((previousSession) => createInitialModMSession(nextConfig, "playing", previousSession.showAnalysis))
+    },
+    handleOpenSetup: () => {
+      setSession((previousSession) => ({ ...previousSession, phase: "setup" }))
+    },
+    // 設定はそのままで最初から遊ぶ
+    handleRestart: () => {
+      setSession((previousSession) =>
+        createInitialModMSession(previousSession.config, "playing", previousSession.showAnalysis),
+      )
+    },
+    // タイトルへ戻るときは対局を片付け、次に開いたときは同じ設定の設定画面から始める
+    handleQuit: () => {
+      setSession((previousSession) =>
+        createInitialModMSession(previousSession.config, "setup", previousSession.showAnalysis),
+      )
+    },
+    // 入力した seed で、設定はそのままで最初から遊ぶ
+    handleStartWithSeed: (seed: number) => {
+      setSession((previousSession) =>
+        createInitialModMSession(previousSession.config, "playing", previousSession.showAnalysis, seed),
+      )
+    },
   }
 }
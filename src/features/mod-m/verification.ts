@@ -0,0 +1,42 @@
+import { getModMWinnerByFormula, solveModMWinner } from "./solver"
+import type { ModMPlayer } from "./types"
+
+export interface ModMVerificationOptions {
+  maxN: number
+  maxM: number
+}
+
+export interface ModMVerificationMismatch {
+  n: number
+  m: number
+  firstTurn: ModMPlayer
+  solverWinner: ModMPlayer
+  formulaWinner: ModMPlayer
+}
+
+export interface ModMVerificationResult {
+  checkedConfigCount: number
+  mismatches: ModMVerificationMismatch[]
+}
+
+// 1 ≤ n < m のすべての組と先手の選び方で、読み切りの勝者が ARC 185 A の結論と一致することを確かめる
+export function verifyModMSolver({ maxN, maxM }: ModMVerificationOptions): ModMVerificationResult {
+  const mismatches: ModMVerificationMismatch[] = []
+  let checkedConfigCount = 0
+
+  for (let n = 1; n <= maxN; n += 1) {
+    for (let m = n + 1; m <= maxM; m += 1) {
+      for (const firstTurn of ["ai", "player"] as const) {
+        checkedConfigCount += 1
+        const solverWinner = solveModMWinner(n, m, firstTurn)
+        const formulaWinner = getModMWinnerByFormula(n, m, firstTurn)
+
+        if (solverWinner !== formulaWinner) {
+          mismatches.push({ n, m, firstTurn, solverWinner, formulaWinner })
+        }
+      }
+    }
+  }
+
+  return { checkedConfigCount, mismatches }
+}
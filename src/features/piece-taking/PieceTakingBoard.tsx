@@ -1,29 +1,35 @@
 import { Box, Paper, Typography } from "@mui/material"
-import { COLOR_NAMES, PIECE_COLORS, PIECE_COLOR_ORDER } from "./constants"
-import { getPieceCount } from "./logic"
+import { COLOR_NAMES, PIECE_COLORS } from "./constants"
+import { formatPieceTakingMove } from "./logic"
 import type { PieceColor, PieceTakingGameState } from "./types"
 
 interface PieceTakingBoardProps {
   gameState: PieceTakingGameState
-  onPileSelect: (color: PieceColor) => void
+  onPileSelect: (pileIndex: number) => void
 }
 
+// これより多いコマは小さく描いて山の大きさを抑える
+const LARGE_PILE_THRESHOLD = 9
+
 function PiecePile({
+  pileIndex,
   color,
   count,
   isSelected,
   onSelect,
 }: {
+  pileIndex: number
   color: PieceColor
   count: number
   isSelected: boolean
-  onSelect: (color: PieceColor) => void
+  onSelect: (pileIndex: number) => void
 }) {
   const palette = PIECE_COLORS[color]
+  const pieceSize = count > LARGE_PILE_THRESHOLD ? { xs: 14, sm: 16 } : { xs: 22, sm: 26 }
 
   return (
     <Box
-      onClick={() => onSelect(color)}
+      onClick={() => onSelect(pileIndex)}
       sx={{
         position: "relative",
         minHeight: { xs: 80, sm: 100 },
@@ -44,17 +50,17 @@ function PiecePile({
           flexWrap: "wrap",
           justifyContent: "center",
           alignItems: "center",
-          padding: "6px",
+          padding: "6px 6px 26px",
           flex: 1,
           gap: 0.5,
         }}
       >
-        {Array.from({ length: Math.min(count, 9) }, (_, index) => (
+        {Array.from({ length: count }, (_, index) => (
           <Box
             key={`${color}-${index}`}
             sx={{
-              width: { xs: 22, sm: 26 },
-              height: { xs: 22, sm: 26 },
+              width: pieceSize,
+              height: pieceSize,
               borderRadius: "50%",
               backgroundColor: palette.main,
               boxShadow: `0 2px 4px rgba(0,0,0,0.2), inset 0 -2px 2px ${palette.shadow}, inset 0 2px 2px ${palette.light}`,
@@ -84,28 +90,31 @@ function PiecePile({
 }
 
 export default function PieceTakingBoard({ gameState, onPileSelect }: PieceTakingBoardProps) {
+  const { lastAIMove } = gameState
+
   return (
     <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider" }}>
       <Box
         sx={{
           display: "grid",
-          gridTemplateColumns: { xs: "1fr", sm: "repeat(3, 1fr)" },
+          gridTemplateColumns: { xs: "1fr", sm: `repeat(${Math.min(gameState.piles.length, 3)}, 1fr)` },
           gap: 2,
           mb: 1,
         }}
       >
-        {PIECE_COLOR_ORDER.map((color) => (
+        {gameState.piles.map((pile, pileIndex) => (
           <PiecePile
-            key={color}
-            color={color}
-            count={getPieceCount(gameState, color)}
-            isSelected={gameState.selectedColor === color}
+            key={pile.color}
+            pileIndex={pileIndex}
+            color={pile.color}
+            count={pile.count}
+            isSelected={gameState.selectedPileIndices.includes(pileIndex)}
             onSelect={onPileSelect}
           />
         ))}
       </Box>
 
-      {gameState.lastAIMove && (
+      {lastAIMove && (
         <Box
           sx={{
             mt: 1.5,
@@ -127,17 +136,20 @@ export default function PieceTakingBoard({ gameState, onPileSelect }: PieceTakin
               gap: 1,
             }}
           >
-            <Box
-              component="span"
-              sx={{
-                width: 10,
-                height: 10,
-                borderRadius: "50%",
-                backgroundColor: PIECE_COLORS[gameState.lastAIMove.color].main,
-                display: "inline-block",
-              }}
-            />
-            AIの手: {COLOR_NAMES[gameState.lastAIMove.color]}から {gameState.lastAIMove.count} 個取りました
+            {lastAIMove.pileIndices.map((pileIndex) => (
+              <Box
+                key={pileIndex}
+                component="span"
+                sx={{
+                  width: 10,
+                  height: 10,
+                  borderRadius: "50%",
+                  backgroundColor: PIECE_COLORS[gameState.piles[pileIndex].color].main,
+                  display: "inline-block",
+                }}
+              />
+            ))}
+            AIの手: {formatPieceTakingMove(gameState.piles, lastAIMove)}取りました
           </Typography>
         </Box>
       )}
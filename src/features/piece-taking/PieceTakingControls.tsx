@@ -1,29 +1,62 @@
 import { ArrowBack, ArrowDownward, ArrowForward, ArrowUpward } from "@mui/icons-material"
 import { Box, Button, IconButton, Paper, Typography } from "@mui/material"
 import { PIECE_COLORS } from "./constants"
-import type { PieceColor, PieceTakingTurn } from "./types"
+import type { AIMoveReason, AIMoveRecord, PieceColor, PieceTakingTurn } from "./types"
 
 interface PieceTakingControlsProps {
   currentTurn: PieceTakingTurn
-  selectedColor: PieceColor
+  lastAIMove: AIMoveRecord | null
+  selectedColors: PieceColor[]
   selectedCount: number
-  availableColorCount: number
-  maxSelectableCount: number
-  onNextColor: () => void
-  onPrevColor: () => void
+  availablePileCount: number
+  // 2つの山から同じ数を取れるルールかどうか
+  canPairPiles: boolean
+  // 選んでいる山から取れる数（昇順）
+  selectableCounts: number[]
+  onNextPile: () => void
+  onPrevPile: () => void
+  onTogglePairedPile: () => void
   onIncreaseCount: () => void
   onDecreaseCount: () => void
   onConfirmMove: () => void
 }
 
+function getAIMoveReasonText(reason: AIMoveReason) {
+  switch (reason.type) {
+    case "finish":
+      return "AIは残りのコマを取り切りました。最後に取った方の勝ちです"
+    case "noMovesLeft":
+      return "AIが取ったあと、コマは残っていますが、ルール上あなたが取れる山はありません。最後に取った方の勝ちです"
+    case "zeroSum":
+      return reason.usesGrundy
+        ? "AIは各山の Grundy 数の XOR が 0 になるように取りました。XOR が 0 の局面からは、どう取っても 0 ではなくなります"
+        : "AIは各山のコマの数の Nim 和（2進数の桁ごとの XOR）が 0 になるように取りました。Nim 和が 0 の局面からは、どう取っても 0 ではなくなります"
+    case "misereEndgame":
+      return `AIは2個以上の山をなくし、1個の山を${reason.singlePileCount}つ（奇数）残しました。あとは1個ずつ交互に取るので、最後の1個はあなたが取ることになります`
+    case "wythoff":
+      return `AIは2つの山を (${reason.position[0]}, ${reason.position[1]}) にしました。黄金比で決まるこの組（P 局面）からは、どう取っても P 局面ではなくなります`
+    case "solved":
+      return "AIは最後まで読んで、どう取ってもあなたが負ける局面にしました。このルールでは Grundy 数だけでは勝敗が決まりません"
+    case "grundyGuide":
+      return "局面が大きくて読み切れないため、AIは Grundy 数の XOR が 0 になる手を目安に選びました"
+    case "unsolved":
+      return "局面が大きくて読み切れず、Grundy 数の XOR も 0 で目安になる手がないため、AIは勝敗が分からないまま少しだけ取りました"
+    case "stall":
+      return "AIは負けの局面だったので、少しだけ取ってあなたのミスを待っています"
+  }
+}
+
 export default function PieceTakingControls({
   currentTurn,
-  selectedColor,
+  lastAIMove,
+  selectedColors,
   selectedCount,
-  availableColorCount,
-  maxSelectableCount,
-  onNextColor,
-  onPrevColor,
+  availablePileCount,
+  canPairPiles,
+  selectableCounts,
+  onNextPile,
+  onPrevPile,
+  onTogglePairedPile,
   onIncreaseCount,
   onDecreaseCount,
   onConfirmMove,
@@ -68,6 +101,12 @@ export default function PieceTakingControls({
   return (
     <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", alignItems: "center" }}>
       <Box sx={{ display: "flex", flexDirection: "column", alignItems: "center", gap: 2, width: "100%" }}>
+        {lastAIMove && (
+          <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.6, width: "100%" }}>
+            {getAIMoveReasonText(lastAIMove.reason)}
+          </Typography>
+        )}
+
         <Box
           sx={{
             display: "flex",
@@ -78,26 +117,36 @@ export default function PieceTakingControls({
             justifyContent: "center",
           }}
         >
-          <IconButton onClick={onPrevColor} size="small" disabled={availableColorCount <= 1} sx={{ p: 0.5 }}>
+          <IconButton onClick={onPrevPile} size="small" disabled={availablePileCount <= 1} sx={{ p: 0.5 }}>
             <ArrowBack fontSize="small" sx={{ color: "text.secondary" }} />
           </IconButton>
 
-          <Box
-            sx={{
-              width: 32,
-              height: 32,
-              borderRadius: "50%",
-              backgroundColor: PIECE_COLORS[selectedColor].main,
-              mx: 2.5,
-              boxShadow: `0 2px 6px ${PIECE_COLORS[selectedColor].shadow}40`,
-            }}
-          />
+          <Box sx={{ display: "flex", gap: 1, mx: 2.5 }}>
+            {selectedColors.map((color) => (
+              <Box
+                key={color}
+                sx={{
+                  width: 32,
+                  height: 32,
+                  borderRadius: "50%",
+                  backgroundColor: PIECE_COLORS[color].main,
+                  boxShadow: `0 2px 6px ${PIECE_COLORS[color].shadow}40`,
+                }}
+              />
+            ))}
+          </Box>
 
-          <IconButton onClick={onNextColor} size="small" disabled={availableColorCount <= 1} sx={{ p: 0.5 }}>
+          <IconButton onClick={onNextPile} size="small" disabled={availablePileCount <= 1} sx={{ p: 0.5 }}>
             <ArrowForward fontSize="small" sx={{ color: "text.secondary" }} />
           </IconButton>
         </Box>
 
+        {canPairPiles && (
+          <Button size="small" onClick={onTogglePairedPile} disabled={availablePileCount <= 1}>
+            {selectedColors.length > 1 ? "1つの山から取る" : "2つの山から同じ数ずつ取る"}
+          </Button>
+        )}
+
         <Box
           sx={{
             display: "flex",
@@ -108,15 +157,15 @@ export default function PieceTakingControls({
             justifyContent: "center",
           }}
         >
-          <IconButton onClick={onDecreaseCount} disabled={selectedCount <= 1} size="small" sx={{ p: 0.5 }}>
+          <IconButton onClick={onDecreaseCount} disabled={selectedCount <= selectableCounts[0]} size="small" sx={{ p: 0.5 }}>
             <ArrowDownward fontSize="small" sx={{ color: "text.secondary" }} />
           </IconButton>
 
           <Typography variant="body1" sx={{ mx: 2.5, color: "text.primary", fontWeight: 500 }}>
-            {selectedCount} 個
+            {selectedCount} 個{selectedColors.length > 1 && "ずつ"}
           </Typography>
 
-          <IconButton onClick={onIncreaseCount} disabled={selectedCount >= maxSelectableCount} size="small" sx={{ p: 0.5 }}>
+          <IconButton onClick={onIncreaseCount} disabled={selectedCount >= selectableCounts[selectableCounts.length - 1]} size="small" sx={{ p: 0.5 }}>
             <ArrowUpward fontSize="small" sx={{ color: "text.secondary" }} />
           </IconButton>
         </Box>
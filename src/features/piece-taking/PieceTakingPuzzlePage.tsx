@@ -0,0 +1,258 @@
+import type { ReactNode } from "react"
+import { Alert, Box, Button, Chip, Paper, ToggleButton, ToggleButtonGroup, Typography } from "@mui/material"
+import { Link } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
+import GamePageLayout from "../../components/GamePageLayout"
+import PieceTakingBoard from "./PieceTakingBoard"
+import PieceTakingControls from "./PieceTakingControls"
+import {
+  DEFAULT_TAKE_RULES,
+  MAX_PUZZLE_PILE_COUNT,
+  MIN_PUZZLE_PILE_COUNT,
+  PLAY_RULE_LABELS,
+  PUZZLE_DIFFICULTY_LABELS,
+  TAKE_RULE_LABELS,
+} from "./constants"
+import { formatPieceTakingMove } from "./logic"
+import { getPuzzlePileCount, getPuzzleRefutation, isSameMove } from "./puzzle"
+import { formatTakeRule } from "./takeRules"
+import type {
+  AIMove,
+  PieceTakingGameState,
+  PieceTakingPlayRule,
+  PieceTakingPuzzleDifficulty,
+  PieceTakingPuzzleFeedback,
+  PieceTakingPuzzleSettings,
+  PieceTakingTakeRule,
+} from "./types"
+import { usePieceTakingPuzzle } from "./usePieceTakingPuzzle"
+
+const PUZZLE_PILE_COUNT_OPTIONS = Array.from(
+  { length: MAX_PUZZLE_PILE_COUNT - MIN_PUZZLE_PILE_COUNT + 1 },
+  (_, index) => MIN_PUZZLE_PILE_COUNT + index,
+)
+
+function SettingRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+      <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+        {label}
+      </Typography>
+      {children}
+    </Box>
+  )
+}
+
+// 設定を変えるとすぐに新しい問題になる
+function PuzzleSettingsPanel({
+  settings,
+  onChange,
+}: {
+  settings: PieceTakingPuzzleSettings
+  onChange: (settings: PieceTakingPuzzleSettings) => void
+}) {
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 2 }}>
+      <SettingRow label="勝ち負けのルール">
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.playRule}
+          onChange={(_, value: PieceTakingPlayRule | null) => value && onChange({ ...settings, playRule: value })}
+        >
+          {(Object.keys(PLAY_RULE_LABELS) as PieceTakingPlayRule[]).map((rule) => (
+            <ToggleButton key={rule} value={rule} sx={{ px: 1.5 }}>
+              {PLAY_RULE_LABELS[rule]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </SettingRow>
+
+      <SettingRow label="1回に取れる数">
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.takeRule.type}
+          onChange={(_, value: PieceTakingTakeRule["type"] | null) =>
+            value && onChange({ ...settings, takeRule: DEFAULT_TAKE_RULES[value] })
+          }
+          sx={{ flexWrap: "wrap" }}
+        >
+          {(Object.keys(TAKE_RULE_LABELS) as PieceTakingTakeRule["type"][]).map((type) => (
+            <ToggleButton key={type} value={type} sx={{ px: 1.5 }}>
+              {TAKE_RULE_LABELS[type]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+        <Typography variant="caption" sx={{ color: "text.secondary" }}>
+          {formatTakeRule(settings.takeRule)}
+        </Typography>
+      </SettingRow>
+
+      <SettingRow label="山の数">
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={getPuzzlePileCount(settings)}
+          onChange={(_, value: number | null) => value && onChange({ ...settings, pileCount: value })}
+          disabled={settings.takeRule.type === "wythoff"}
+        >
+          {PUZZLE_PILE_COUNT_OPTIONS.map((pileCount) => (
+            <ToggleButton key={pileCount} value={pileCount} sx={{ px: 1.5 }}>
+              {pileCount}山
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </SettingRow>
+
+      <SettingRow label="難しさ">
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={settings.difficulty}
+          onChange={(_, value: PieceTakingPuzzleDifficulty | null) => value && onChange({ ...settings, difficulty: value })}
+        >
+          {(Object.keys(PUZZLE_DIFFICULTY_LABELS) as PieceTakingPuzzleDifficulty[]).map((difficulty) => (
+            <ToggleButton key={difficulty} value={difficulty} sx={{ px: 1.5 }}>
+              {PUZZLE_DIFFICULTY_LABELS[difficulty]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </SettingRow>
+    </Paper>
+  )
+}
+
+function PuzzleFeedbackPanel({
+  gameState,
+  feedback,
+  winningMoves,
+}: {
+  gameState: PieceTakingGameState
+  feedback: PieceTakingPuzzleFeedback
+  winningMoves: AIMove[]
+}) {
+  const answeredMove = formatPieceTakingMove(gameState.piles, feedback.move)
+  const refutation = feedback.correct ? null : getPuzzleRefutation(gameState, feedback.move)
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 1.5 }}>
+      {feedback.correct ? (
+        <Alert severity="success">
+          正解です！{answeredMove}取ると、相手はどう取っても負ける局面（P 局面）になります
+        </Alert>
+      ) : (
+        <Alert severity="error">
+          不正解です。{answeredMove}取ると相手の必勝の局面（N 局面）になり、
+          {refutation ? `相手は${formatPieceTakingMove(gameState.piles, refutation)}取れば勝てます` : "相手が勝ちます"}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.secondary" }}>
+          正解の手{winningMoves.length > 1 && `（${winningMoves.length}通り）`}:
+        </Typography>
+        {winningMoves.map((move) => (
+          <Chip
+            key={`${move.pileIndices.join("-")}-${move.count}`}
+            size="small"
+            label={formatPieceTakingMove(gameState.piles, move)}
+            color={isSameMove(move, feedback.move) ? "success" : "default"}
+            variant={isSameMove(move, feedback.move) ? "filled" : "outlined"}
+          />
+        ))}
+      </Box>
+    </Paper>
+  )
+}
+
+export default function PieceTakingPuzzlePage() {
+  const {
+    settings,
+    gameState,
+    winningMoves,
+    feedback,
+    streak,
+    bestStreak,
+    availablePiles,
+    selectableCounts,
+    handlePileSelect,
+    handleNextPile,
+    handlePrevPile,
+    handleTogglePairedPile,
+    handleIncreaseCount,
+    handleDecreaseCount,
+    handleAnswer,
+    handleNextPuzzle,
+    handleChangeSettings,
+  } = usePieceTakingPuzzle()
+
+  return (
+    <GamePageLayout
+      title="駒取りゲーム 練習問題"
+      rules={
+        <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
+          ・あなたの手番で、正しく取れば必ず勝てる局面（N 局面）が出題されます
+          <br />
+          ・相手をどう取っても負ける局面（P 局面）にする手を1つ選んで答えてください
+          <br />
+          ・正解が続くと連続正解数が増えます。間違えるか、答えずに次の問題へ進むと 0 に戻ります
+        </Typography>
+      }
+    >
+      <PuzzleSettingsPanel settings={settings} onChange={handleChangeSettings} />
+
+      <Typography variant="body2" sx={{ color: "text.secondary", textAlign: "center" }}>
+        連続正解 {streak} 問（最高 {bestStreak} 問）
+      </Typography>
+
+      {winningMoves.length === 0 ? (
+        <Alert severity="info">この設定では出題できる局面が見つかりませんでした。設定を変えてください</Alert>
+      ) : (
+        <>
+          <PieceTakingBoard gameState={gameState} onPileSelect={handlePileSelect} />
+
+          {feedback ? (
+            <PuzzleFeedbackPanel gameState={gameState} feedback={feedback} winningMoves={winningMoves} />
+          ) : (
+            <PieceTakingControls
+              currentTurn={gameState.currentTurn}
+              lastAIMove={null}
+              selectedColors={gameState.selectedPileIndices.map((pileIndex) => gameState.piles[pileIndex].color)}
+              selectedCount={gameState.selectedCount}
+              availablePileCount={availablePiles.length}
+              canPairPiles={gameState.takeRule.type === "wythoff"}
+              selectableCounts={selectableCounts}
+              onNextPile={handleNextPile}
+              onPrevPile={handlePrevPile}
+              onTogglePairedPile={handleTogglePairedPile}
+              onIncreaseCount={handleIncreaseCount}
+              onDecreaseCount={handleDecreaseCount}
+              onConfirmMove={handleAnswer}
+            />
+          )}
+        </>
+      )}
+
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "center",
+          gap: 1.5,
+          flexDirection: { xs: "column", sm: "row" },
+          width: { xs: "100%", sm: "auto" },
+        }}
+      >
+        <Button variant="outlined" size="small" onClick={handleNextPuzzle} sx={SECONDARY_BUTTON_SX}>
+          {feedback ? "次の問題" : "この問題を飛ばす"}
+        </Button>
+        <Button component={Link} to="/piece-taking" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          対局に戻る
+        </Button>
+        <Button component={Link} to="/" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          タイトルへ
+        </Button>
+      </Box>
+    </GamePageLayout>
+  )
+}
@@ -0,0 +1,282 @@
+import { useState } from "react"
+import { Add, ArrowDownward, ArrowUpward, Close } from "@mui/icons-material"
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Select,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material"
+import {
+  COLOR_NAMES,
+  DEFAULT_TAKE_RULES,
+  FIRST_TURN_LABELS,
+  MAX_PILE_COUNT,
+  MAX_PILE_SIZE,
+  MAX_TAKE_AMOUNT,
+  MIN_PILE_COUNT,
+  PIECE_COLOR_ORDER,
+  PIECE_COLORS,
+  PLAY_RULE_LABELS,
+  TAKE_RULE_LABELS,
+} from "./constants"
+import { validatePieceTakingConfig } from "./logic"
+import { formatTakeRule } from "./takeRules"
+import type {
+  PieceColor,
+  PieceTakingConfig,
+  PieceTakingFirstTurn,
+  PieceTakingPile,
+  PieceTakingPlayRule,
+  PieceTakingTakeRule,
+} from "./types"
+
+const TAKE_AMOUNT_OPTIONS = Array.from({ length: MAX_TAKE_AMOUNT }, (_, index) => index + 1)
+
+function TakeRuleSettings({
+  takeRule,
+  onChange,
+}: {
+  takeRule: PieceTakingTakeRule
+  onChange: (takeRule: PieceTakingTakeRule) => void
+}) {
+  return (
+    <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+      <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+        1回に取れる数
+      </Typography>
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={takeRule.type}
+        onChange={(_, value: PieceTakingTakeRule["type"] | null) => value && onChange(DEFAULT_TAKE_RULES[value])}
+        sx={{ flexWrap: "wrap" }}
+      >
+        {(Object.keys(TAKE_RULE_LABELS) as PieceTakingTakeRule["type"][]).map((type) => (
+          <ToggleButton key={type} value={type} sx={{ px: 1.5 }}>
+            {TAKE_RULE_LABELS[type]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      {takeRule.type === "atMost" && (
+        <Box sx={{ display: "flex", alignItems: "center" }}>
+          <IconButton
+            size="small"
+            onClick={() => onChange({ type: "atMost", max: takeRule.max - 1 })}
+            disabled={takeRule.max <= 1}
+          >
+            <ArrowDownward fontSize="small" sx={{ color: "text.secondary" }} />
+          </IconButton>
+          <Typography variant="body1" sx={{ mx: 1, minWidth: 72, textAlign: "center", color: "text.primary" }}>
+            {takeRule.max} 個まで
+          </Typography>
+          <IconButton
+            size="small"
+            onClick={() => onChange({ type: "atMost", max: takeRule.max + 1 })}
+            disabled={takeRule.max >= MAX_TAKE_AMOUNT}
+          >
+            <ArrowUpward fontSize="small" sx={{ color: "text.secondary" }} />
+          </IconButton>
+        </Box>
+      )}
+
+      {takeRule.type === "subtraction" && (
+        <ToggleButtonGroup
+          size="small"
+          value={takeRule.amounts}
+          onChange={(_, amounts: number[]) => onChange({ type: "subtraction", amounts: [...amounts].sort((a, b) => a - b) })}
+          sx={{ flexWrap: "wrap" }}
+        >
+          {TAKE_AMOUNT_OPTIONS.map((amount) => (
+            <ToggleButton key={amount} value={amount} sx={{ px: 1.5 }}>
+              {amount}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      )}
+
+      {(takeRule.type !== "subtraction" || takeRule.amounts.length > 0) && (
+        <Typography variant="caption" sx={{ color: "text.secondary" }}>
+          {formatTakeRule(takeRule)}
+        </Typography>
+      )}
+    </Box>
+  )
+}
+
+interface PieceTakingSetupPanelProps {
+  initialConfig: PieceTakingConfig
+  onStart: (config: PieceTakingConfig) => void
+}
+
+export default function PieceTakingSetupPanel({ initialConfig, onStart }: PieceTakingSetupPanelProps) {
+  const [piles, setPiles] = useState<PieceTakingPile[]>(initialConfig.piles)
+  const [playRule, setPlayRule] = useState<PieceTakingPlayRule>(initialConfig.playRule)
+  const [takeRule, setTakeRule] = useState<PieceTakingTakeRule>(initialConfig.takeRule)
+  const [firstTurn, setFirstTurn] = useState<PieceTakingFirstTurn>(initialConfig.firstTurn)
+  const config = { piles, playRule, takeRule, firstTurn }
+  const errors = validatePieceTakingConfig(config)
+  const usedColors = piles.map((pile) => pile.color)
+
+  const updatePile = (pileIndex: number, update: Partial<PieceTakingPile>) => {
+    setPiles((previousPiles) =>
+      previousPiles.map((pile, index) => (index === pileIndex ? { ...pile, ...update } : pile)),
+    )
+  }
+
+  const handleAddPile = () => {
+    const unusedColor = PIECE_COLOR_ORDER.find((color) => !usedColors.includes(color))
+
+    if (unusedColor) {
+      setPiles((previousPiles) => [...previousPiles, { color: unusedColor, count: 3 }])
+    }
+  }
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 2 }}>
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+          勝ち負けのルール
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={playRule}
+          onChange={(_, value: PieceTakingPlayRule | null) => value && setPlayRule(value)}
+        >
+          {(Object.keys(PLAY_RULE_LABELS) as PieceTakingPlayRule[]).map((rule) => (
+            <ToggleButton key={rule} value={rule} sx={{ px: 1.5 }}>
+              {PLAY_RULE_LABELS[rule]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <TakeRuleSettings takeRule={takeRule} onChange={setTakeRule} />
+
+      <Box sx={{ display: "flex", flexDirection: "column", alignItems: "flex-start", gap: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+          先手
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={firstTurn}
+          onChange={(_, value: PieceTakingFirstTurn | null) => value && setFirstTurn(value)}
+        >
+          {(Object.keys(FIRST_TURN_LABELS) as PieceTakingFirstTurn[]).map((turn) => (
+            <ToggleButton key={turn} value={turn} sx={{ px: 1.5 }}>
+              {FIRST_TURN_LABELS[turn]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+        山の設定（{MIN_PILE_COUNT}〜{MAX_PILE_COUNT}山、各山{MAX_PILE_SIZE}個まで）
+      </Typography>
+
+      <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+        {piles.map((pile, pileIndex) => (
+          <Box
+            key={pile.color}
+            sx={{
+              display: "flex",
+              alignItems: "center",
+              gap: 1,
+              p: 1,
+              borderRadius: 2,
+              backgroundColor: "#f9fafb",
+            }}
+          >
+            <Box
+              sx={{
+                width: 20,
+                height: 20,
+                borderRadius: "50%",
+                flexShrink: 0,
+                backgroundColor: PIECE_COLORS[pile.color].main,
+              }}
+            />
+            <Select
+              size="small"
+              value={pile.color}
+              onChange={(event) => updatePile(pileIndex, { color: event.target.value as PieceColor })}
+              sx={{ minWidth: 96 }}
+            >
+              {PIECE_COLOR_ORDER.filter((color) => color === pile.color || !usedColors.includes(color)).map((color) => (
+                <MenuItem key={color} value={color}>
+                  {COLOR_NAMES[color]}
+                </MenuItem>
+              ))}
+            </Select>
+            <Box sx={{ display: "flex", alignItems: "center", ml: "auto" }}>
+              <IconButton
+                size="small"
+                onClick={() => updatePile(pileIndex, { count: pile.count - 1 })}
+                disabled={pile.count <= 1}
+              >
+                <ArrowDownward fontSize="small" sx={{ color: "text.secondary" }} />
+              </IconButton>
+              <Typography variant="body1" sx={{ mx: 1, minWidth: 40, textAlign: "center", color: "text.primary" }}>
+                {pile.count} 個
+              </Typography>
+              <IconButton
+                size="small"
+                onClick={() => updatePile(pileIndex, { count: pile.count + 1 })}
+                disabled={pile.count >= MAX_PILE_SIZE}
+              >
+                <ArrowUpward fontSize="small" sx={{ color: "text.secondary" }} />
+              </IconButton>
+            </Box>
+            <IconButton
+              size="small"
+              onClick={() => setPiles((previousPiles) => previousPiles.filter((_, index) => index !== pileIndex))}
+              disabled={piles.length <= MIN_PILE_COUNT}
+            >
+              <Close fontSize="small" />
+            </IconButton>
+          </Box>
+        ))}
+      </Box>
+
+      <Button size="small" startIcon={<Add />} onClick={handleAddPile} disabled={piles.length >= MAX_PILE_COUNT}>
+        山を追加
+      </Button>
+
+      {errors.length > 0 && (
+        <Alert severity="warning">
+          {errors.map((error) => (
+            <Box key={error}>{error}</Box>
+          ))}
+        </Alert>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "center" }}>
+        <Button
+          variant="contained"
+          onClick={() => onStart(config)}
+          disabled={errors.length > 0}
+          sx={{
+            borderRadius: 10,
+            px: 3,
+            py: 1,
+            backgroundColor: "#059669",
+            color: "#fff",
+            fontWeight: 600,
+            "&:hover": { backgroundColor: "#047857" },
+            width: { xs: "100%", sm: "auto" },
+          }}
+        >
+          この設定で始める
+        </Button>
+      </Box>
+    </Paper>
+  )
+}
@@ -0,0 +1,167 @@
+import { Alert, Box, Chip, Paper, Typography } from "@mui/material"
+import { COLOR_NAMES, PIECE_COLORS } from "./constants"
+import { formatPieceTakingMove } from "./logic"
+import { getWythoffPPositions } from "./takeRules"
+import type { PieceTakingAnalysis, PieceTakingGameState } from "./types"
+
+interface PieceTakingStrategyPanelProps {
+  gameState: PieceTakingGameState
+  analysis: PieceTakingAnalysis
+}
+
+const DIGIT_SX = { width: 20, textAlign: "center", fontFamily: "monospace", fontSize: "0.95rem" }
+
+function toBinaryDigits(value: number, bitWidth: number) {
+  return value.toString(2).padStart(bitWidth, "0").split("")
+}
+
+function getPositionMessage(gameState: PieceTakingGameState, analysis: PieceTakingAnalysis) {
+  const { isWinning, isMisereEndgame } = analysis
+
+  if (isWinning === null) {
+    return "局面が大きいため最後まで読み切れません。Grundy 数の XOR を目安にしてください"
+  }
+
+  const positionLabel = isWinning ? "N 局面（手番側の必勝）" : "P 局面（手番側の必敗）"
+
+  if (gameState.takeRule.type === "wythoff") {
+    const [smaller, larger] = gameState.piles.map((pile) => pile.count).sort((a, b) => a - b)
+    return `2つの山は (${smaller}, ${larger}) なので${positionLabel}です`
+  }
+
+  if (isMisereEndgame) {
+    const singleCount = gameState.piles.filter((pile) => pile.count === 1).length
+    return `1個の山が${singleCount}つ（${singleCount % 2 === 0 ? "偶数" : "奇数"}）なので${positionLabel}です`
+  }
+
+  if (gameState.playRule === "misere" && gameState.takeRule.type !== "any") {
+    return `最後に取ると負けのルールでは Grundy 数だけでは決まらないため、最後まで読んで判定しています。${positionLabel}です`
+  }
+
+  return `XOR が ${analysis.grundySum === 0 ? "0 なので" : "0 ではないので"}${positionLabel}です`
+}
+
+// Wythoff のゲームの P 局面の表。今の2山の組と同じものを強調する
+function WythoffPositionTable({ gameState }: { gameState: PieceTakingGameState }) {
+  const [smaller, larger] = gameState.piles.map((pile) => pile.count).sort((a, b) => a - b)
+  const positions = getWythoffPPositions(gameState.playRule, larger)
+
+  return (
+    <>
+      <Typography variant="caption" sx={{ color: "text.secondary", lineHeight: 1.6 }}>
+        2つの山から同じ数を取れるときは XOR ではなく、小さい順に並べた2山の組が次の P 局面かどうかで決まります。
+        {gameState.playRule === "normal"
+          ? "k 番目の組は (⌊kφ⌋, ⌊kφ⌋ + k)（φ は黄金比 1.618…）で、差が 0, 1, 2, … と1ずつ増えていきます"
+          : "最後に取ると負けのルールでは、(⌊kφ⌋, ⌊kφ⌋ + k)（φ は黄金比 1.618…）のうち (0, 0) と (1, 2) が (0, 1) と (2, 2) に入れ替わります"}
+      </Typography>
+      <Box sx={{ display: "flex", flexWrap: "wrap", gap: 1 }}>
+        {positions.map(([first, second]) => (
+          <Chip
+            key={`${first}-${second}`}
+            size="small"
+            label={`(${first}, ${second})`}
+            color={first === smaller && second === larger ? "primary" : "default"}
+            variant={first === smaller && second === larger ? "filled" : "outlined"}
+          />
+        ))}
+      </Box>
+    </>
+  )
+}
+
+function NimSumTable({ gameState, analysis }: PieceTakingStrategyPanelProps) {
+  const usesGrundy = gameState.takeRule.type !== "any"
+  const bitWidth = Math.max(1, ...analysis.grundyValues.map((value) => value.toString(2).length))
+
+  return (
+    <>
+      <Typography variant="caption" sx={{ color: "text.secondary", lineHeight: 1.6 }}>
+        {usesGrundy
+          ? "取れる数が決まっているので、各山のコマの数の代わりに Grundy 数（その山だけで見た強さ）を2進数で書き、"
+          : "各山のコマの数を2進数で書き、"}
+        桁ごとに XOR（1 が奇数個なら 1、偶数個なら 0）をとります。XOR が 0 の局面（P 局面）で相手に手番を渡せば勝てます
+      </Typography>
+
+      <Box sx={{ display: "flex", flexDirection: "column", gap: 0.5, alignSelf: "center" }}>
+        {gameState.piles.map((pile, pileIndex) => (
+          <Box key={pile.color} sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+            <Box
+              sx={{
+                width: 12,
+                height: 12,
+                borderRadius: "50%",
+                backgroundColor: PIECE_COLORS[pile.color].main,
+                flexShrink: 0,
+              }}
+            />
+            <Typography variant="body2" sx={{ minWidth: 112, color: "text.secondary" }}>
+              {COLOR_NAMES[pile.color]} {pile.count}個{usesGrundy && ` → ${analysis.grundyValues[pileIndex]}`}
+            </Typography>
+            {toBinaryDigits(analysis.grundyValues[pileIndex], bitWidth).map((digit, digitIndex) => (
+              <Typography key={digitIndex} sx={{ ...DIGIT_SX, color: "text.primary" }}>
+                {digit}
+              </Typography>
+            ))}
+          </Box>
+        ))}
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1, borderTop: "1px solid", borderColor: "divider", pt: 0.5 }}>
+          <Box sx={{ width: 12, flexShrink: 0 }} />
+          <Typography variant="body2" sx={{ minWidth: 112, color: "text.primary", fontWeight: 600 }}>
+            XOR = {analysis.grundySum}
+          </Typography>
+          {toBinaryDigits(analysis.grundySum, bitWidth).map((digit, digitIndex) => (
+            <Typography
+              key={digitIndex}
+              sx={{ ...DIGIT_SX, fontWeight: 700, color: digit === "1" ? "#dc2626" : "text.primary" }}
+            >
+              {digit}
+            </Typography>
+          ))}
+        </Box>
+      </Box>
+    </>
+  )
+}
+
+export default function PieceTakingStrategyPanel({ gameState, analysis }: PieceTakingStrategyPanelProps) {
+  const largePileCount = gameState.piles.filter((pile) => pile.count > 1).length
+  const showsMisereException = gameState.playRule === "misere" && gameState.takeRule.type === "any"
+
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 1.5 }}>
+      <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
+        必勝法の解説（{gameState.currentTurn === "player" ? "あなた" : "AI"}の手番）
+      </Typography>
+      {gameState.takeRule.type === "wythoff" ? (
+        <WythoffPositionTable gameState={gameState} />
+      ) : (
+        <NimSumTable gameState={gameState} analysis={analysis} />
+      )}
+
+      {showsMisereException && (analysis.isMisereEndgame || largePileCount === 1) && (
+        <Alert severity="info">
+          最後に取ると負けのルールの例外: 2個以上の山がなくなると XOR ではなく、1個の山が奇数個なら P 局面になります。
+          {largePileCount === 1 && "2個以上の山が1つだけのときは、その山を 0 個か 1 個にして 1個の山が奇数個残るように取ります"}
+        </Alert>
+      )}
+
+      <Alert severity={analysis.isWinning ? "success" : "warning"}>{getPositionMessage(gameState, analysis)}</Alert>
+
+      {analysis.winningMoves.length > 0 && (
+        <Box sx={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: 1 }}>
+          <Typography variant="body2" sx={{ color: "text.secondary" }}>
+            P 局面にする手:
+          </Typography>
+          {analysis.winningMoves.map((move) => (
+            <Chip
+              key={`${move.pileIndices.join("-")}-${move.count}`}
+              size="small"
+              variant="outlined"
+              label={formatPieceTakingMove(gameState.piles, move)}
+            />
+          ))}
+        </Box>
+      )}
+    </Paper>
+  )
+}
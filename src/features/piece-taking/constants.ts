@@ -1,39 +1,165 @@
-import type { PieceColor, PieceTakingGameState, PieceTakingSession } from "./types"
+import { createRandomSeed, nextRandom } from "../../utils/seededRandom"
+import { getAllowedTakeCounts } from "./takeRules"
+import type {
+  PieceColor,
+  PieceTakingConfig,
+  PieceTakingFirstTurn,
+  PieceTakingGameState,
+  PieceTakingPlayRule,
+  PieceTakingPuzzleDifficulty,
+  PieceTakingPuzzleSettings,
+  PieceTakingSession,
+  PieceTakingTakeRule,
+  PieceTakingTurn,
+} from "./types"
 
 export const PIECE_TAKING_STORAGE_KEY = "logic-game-challenge/piece-taking"
-export const PIECE_TAKING_STORAGE_VERSION = 1
+export const PIECE_TAKING_STORAGE_VERSION = 10
+export const PIECE_TAKING_PUZZLE_STORAGE_KEY = "logic-game-challenge/piece-taking-puzzle"
+export const PIECE_TAKING_PUZZLE_STORAGE_VERSION = 1
 
-export const PIECE_COLOR_ORDER: PieceColor[] = ["blue", "yellow", "red"]
+export const PIECE_COLOR_ORDER: PieceColor[] = ["blue", "yellow", "red", "green", "purple", "orange"]
+
+export const MIN_PILE_COUNT = 1
+export const MAX_PILE_COUNT = PIECE_COLOR_ORDER.length
+export const MAX_PILE_SIZE = 20
+// 「決まった数だけ」「k個まで」で指定できる一番大きな数
+export const MAX_TAKE_AMOUNT = 10
 
 export const COLOR_NAMES: Record<PieceColor, string> = {
   blue: "青色",
   yellow: "黄色",
   red: "赤色",
+  green: "緑色",
+  purple: "紫色",
+  orange: "橙色",
 }
 
 export const PIECE_COLORS: Record<PieceColor, { main: string; light: string; shadow: string }> = {
   blue: { main: "#3b5998", light: "#5b7dc0", shadow: "#2c4373" },
   yellow: { main: "#d4a017", light: "#e6b830", shadow: "#b8860b" },
   red: { main: "#c0392b", light: "#e05544", shadow: "#8b1a10" },
+  green: { main: "#2e8b57", light: "#48b07a", shadow: "#1e5e3a" },
+  purple: { main: "#7b4fa0", light: "#9b6fc0", shadow: "#553670" },
+  orange: { main: "#e07b24", light: "#f09a4a", shadow: "#a85812" },
+}
+
+export const PLAY_RULE_LABELS: Record<PieceTakingPlayRule, string> = {
+  normal: "最後に取ったら勝ち",
+  misere: "最後に取ったら負け",
+}
+
+export const FIRST_TURN_LABELS: Record<PieceTakingFirstTurn, string> = {
+  player: "あなた",
+  ai: "AI",
+  random: "コイントス",
+}
+
+export const TAKE_RULE_LABELS: Record<PieceTakingTakeRule["type"], string> = {
+  any: "いくつでも",
+  atMost: "k個まで",
+  subtraction: "決まった数だけ",
+  wythoff: "2つの山から同じ数も",
+}
+
+// 取り方を切り替えたときの初期値
+export const DEFAULT_TAKE_RULES: Record<PieceTakingTakeRule["type"], PieceTakingTakeRule> = {
+  any: { type: "any" },
+  atMost: { type: "atMost", max: 3 },
+  subtraction: { type: "subtraction", amounts: [1, 3, 4] },
+  wythoff: { type: "wythoff" },
+}
+
+export const DEFAULT_PIECE_TAKING_CONFIG: PieceTakingConfig = {
+  piles: [
+    { color: "blue", count: 4 },
+    { color: "yellow", count: 3 },
+    { color: "red", count: 2 },
+  ],
+  playRule: "misere",
+  takeRule: DEFAULT_TAKE_RULES.any,
+  firstTurn: "player",
 }
 
-export function createInitialPieceTakingState(): PieceTakingGameState {
+export const PUZZLE_DIFFICULTY_LABELS: Record<PieceTakingPuzzleDifficulty, string> = {
+  easy: "やさしい",
+  normal: "ふつう",
+  hard: "むずかしい",
+}
+
+// 難しさごとの各山のコマの数の範囲と、正解の手が1つだけの局面に絞るかどうか
+export const PUZZLE_DIFFICULTY_SETTINGS: Record<
+  PieceTakingPuzzleDifficulty,
+  { minPileSize: number; maxPileSize: number; uniqueAnswer: boolean }
+> = {
+  easy: { minPileSize: 1, maxPileSize: 5, uniqueAnswer: false },
+  normal: { minPileSize: 2, maxPileSize: 9, uniqueAnswer: false },
+  hard: { minPileSize: 3, maxPileSize: 15, uniqueAnswer: true },
+}
+
+export const MIN_PUZZLE_PILE_COUNT = 2
+export const MAX_PUZZLE_PILE_COUNT = 5
+
+export const DEFAULT_PIECE_TAKING_PUZZLE_SETTINGS: PieceTakingPuzzleSettings = {
+  pileCount: 3,
+  difficulty: "easy",
+  playRule: "normal",
+  takeRule: DEFAULT_TAKE_RULES.any,
+}
+
+export function createInitialPieceTakingState(
+  config: PieceTakingConfig = DEFAULT_PIECE_TAKING_CONFIG,
+  currentTurn: PieceTakingTurn = "player",
+): PieceTakingGameState {
+  // 最初に取れる山を選んでおく
+  const firstPileIndex = Math.max(
+    config.piles.findIndex((pile) => getAllowedTakeCounts(config.takeRule, pile.count).length > 0),
+    0,
+  )
+
   return {
-    bluePieces: 4,
-    yellowPieces: 3,
-    redPieces: 2,
-    currentTurn: "player",
-    selectedColor: "blue",
-    selectedCount: 1,
+    piles: config.piles.map((pile) => ({ ...pile })),
+    playRule: config.playRule,
+    takeRule: config.takeRule,
+    currentTurn,
+    selectedPileIndices: [firstPileIndex],
+    selectedCount: getAllowedTakeCounts(config.takeRule, config.piles[firstPileIndex]?.count ?? 0)[0] ?? 1,
     gameOver: false,
     winner: null,
     lastAIMove: null,
   }
 }
 
-export function createInitialPieceTakingSession(): PieceTakingSession {
+export function createInitialPieceTakingSession(
+  config: PieceTakingConfig = DEFAULT_PIECE_TAKING_CONFIG,
+  phase: PieceTakingSession["phase"] = "setup",
+  showStrategy = false,
+  randomSeed = createRandomSeed(),
+): PieceTakingSession {
+  if (config.firstTurn !== "random") {
+    return {
+      phase,
+      config,
+      gameState: createInitialPieceTakingState(config, config.firstTurn),
+      history: [],
+      showStrategy,
+      initialRandomSeed: randomSeed,
+      randomSeed,
+      randomSeedHistory: [],
+    }
+  }
+
+  // コイントスにもセッションの seed を使う
+  const { value, nextSeed } = nextRandom(randomSeed)
+
   return {
-    gameState: createInitialPieceTakingState(),
+    phase,
+    config,
+    gameState: createInitialPieceTakingState(config, value < 0.5 ? "player" : "ai"),
     history: [],
+    showStrategy,
+    initialRandomSeed: randomSeed,
+    randomSeed: nextSeed,
+    randomSeedHistory: [],
   }
 }
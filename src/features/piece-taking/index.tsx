@@ -1,25 +1,52 @@
 import { Box, Button, Typography } from "@mui/material"
 import { Link } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
 import GamePageLayout from "../../components/GamePageLayout"
+import RandomSeedPanel from "../../components/RandomSeedPanel"
 import ResultOverlay from "../../components/ResultOverlay"
 import PieceTakingBoard from "./PieceTakingBoard"
 import PieceTakingControls from "./PieceTakingControls"
+import PieceTakingSetupPanel from "./PieceTakingSetupPanel"
+import PieceTakingStrategyPanel from "./PieceTakingStrategyPanel"
+import { formatTakeRule } from "./takeRules"
+import type { PieceTakingGameState } from "./types"
 import { usePieceTakingGame } from "./usePieceTakingGame"
 
+// 最後に取ったのはどちらかと、その結果を表示する
+function getResultLabel(gameState: PieceTakingGameState) {
+  const playerWon = gameState.winner === "player"
+  const playerTookLast = gameState.playRule === "normal" ? playerWon : !playerWon
+  const takenBy = playerTookLast ? "あなた" : "AI"
+
+  return `${takenBy}が最後に取りました。${playerWon ? "あなたの勝ちです！" : "AIの勝ちです"}`
+}
+
 export default function PieceTakingGamePage() {
   const {
+    phase,
+    config,
     gameState,
-    availableColors,
-    maxSelectableCount,
+    firstTurn,
+    availablePiles,
+    selectableCounts,
+    showStrategy,
+    analysis,
+    initialRandomSeed,
     canUndo,
     handlePileSelect,
-    handleNextColor,
-    handlePrevColor,
+    handleNextPile,
+    handlePrevPile,
+    handleTogglePairedPile,
     handleIncreaseCount,
     handleDecreaseCount,
     handleConfirmMove,
     handleUndo,
+    handleToggleStrategy,
+    handleStart,
+    handleOpenSetup,
     handleRestart,
+    handleQuit,
+    handleStartWithSeed,
   } = usePieceTakingGame()
 
   return (
@@ -27,26 +54,52 @@ export default function PieceTakingGamePage() {
       title="駒取りゲーム"
       rules={
         <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
-          ・3色のコマから1色を選び、その色のコマを1個以上取る行為を交互に行います
+          ・いくつかの色のコマの山から1色を選び、その色のコマを取る行為を交互に行います
+          <br />
+          ・{formatTakeRule(config.takeRule)}
           <br />
-          ・最後の1個を取った方が負けです
+          ・
+          {config.playRule === "normal"
+            ? "最後に取った方が勝ちです（取れる山がなくなった方の負け）"
+            : "最後に取った方が負けです（取れる山がなくなった方の勝ち）"}
+          <br />
+          ・山の数と各山のコマの数、取れる数、勝ち負けのルール、先手は設定画面で選べます
         </Typography>
       }
     >
-      <PieceTakingBoard gameState={gameState} onPileSelect={handlePileSelect} />
+      {phase === "setup" ? (
+        <PieceTakingSetupPanel initialConfig={config} onStart={handleStart} />
+      ) : (
+        <>
+          {config.firstTurn === "random" && (
+            <Typography variant="body2" sx={{ color: "text.secondary", textAlign: "center" }}>
+              コイントスの結果、{firstTurn === "player" ? "あなた" : "AI"}が先手です
+            </Typography>
+          )}
 
-      <PieceTakingControls
-        currentTurn={gameState.currentTurn}
-        selectedColor={gameState.selectedColor}
-        selectedCount={gameState.selectedCount}
-        availableColorCount={availableColors.length}
-        maxSelectableCount={maxSelectableCount}
-        onNextColor={handleNextColor}
-        onPrevColor={handlePrevColor}
-        onIncreaseCount={handleIncreaseCount}
-        onDecreaseCount={handleDecreaseCount}
-        onConfirmMove={handleConfirmMove}
-      />
+          <PieceTakingBoard gameState={gameState} onPileSelect={handlePileSelect} />
+
+          <PieceTakingControls
+            currentTurn={gameState.currentTurn}
+            lastAIMove={gameState.lastAIMove}
+            selectedColors={gameState.selectedPileIndices.map((pileIndex) => gameState.piles[pileIndex].color)}
+            selectedCount={gameState.selectedCount}
+            availablePileCount={availablePiles.length}
+            canPairPiles={gameState.takeRule.type === "wythoff"}
+            selectableCounts={selectableCounts}
+            onNextPile={handleNextPile}
+            onPrevPile={handlePrevPile}
+            onTogglePairedPile={handleTogglePairedPile}
+            onIncreaseCount={handleIncreaseCount}
+            onDecreaseCount={handleDecreaseCount}
+            onConfirmMove={handleConfirmMove}
+          />
+
+          {showStrategy && analysis && <PieceTakingStrategyPanel gameState={gameState} analysis={analysis} />}
+
+          <RandomSeedPanel seed={initialRandomSeed} onStart={handleStartWithSeed} />
+        </>
+      )}
 
       <Box
         sx={{
@@ -57,49 +110,38 @@ export default function PieceTakingGamePage() {
           width: { xs: "100%", sm: "auto" },
         }}
       >
-        <Button
-          variant="outlined"
-          size="small"
-          onClick={handleUndo}
-          disabled={!canUndo}
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
-        >
-          1手戻る
+        {phase === "playing" && (
+          <>
+            <Button variant="outlined" size="small" onClick={handleUndo} disabled={!canUndo} sx={SECONDARY_BUTTON_SX}>
+              1手戻る
+            </Button>
+            <Button variant="outlined" size="small" onClick={handleToggleStrategy} sx={SECONDARY_BUTTON_SX}>
+              {showStrategy ? "必勝法を隠す" : "必勝法を見る"}
+            </Button>
+            <Button variant="outlined" size="small" onClick={handleOpenSetup} sx={SECONDARY_BUTTON_SX}>
+              設定を変える
+            </Button>
+          </>
+        )}
+        <Button component={Link} to="/piece-taking/puzzle" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          練習問題
         </Button>
         <Button
           component={Link}
           to="/"
-          onClick={handleRestart}
+          onClick={handleQuit}
           variant="outlined"
           size="small"
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
+          sx={SECONDARY_BUTTON_SX}
         >
           タイトルへ
         </Button>
       </Box>
 
       <ResultOverlay
-        open={gameState.gameOver}
+        open={phase === "playing" && gameState.gameOver}
         playerWon={gameState.winner === "player"}
-        resultLabel={gameState.winner === "player" ? "あなたの勝ちです！" : "AIの勝ちです"}
+        resultLabel={getResultLabel(gameState)}
         onRestart={handleRestart}
       />
     </GamePageLayout>
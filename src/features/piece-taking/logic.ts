@@ -1,72 +1,159 @@
-import { PIECE_COLOR_ORDER } from "./constants"
-import type { PieceColor, PieceTakingGameState } from "./types"
-
-type PieceCountKey = "bluePieces" | "yellowPieces" | "redPieces"
-
-const PIECE_COUNT_KEYS: Record<PieceColor, PieceCountKey> = {
-  blue: "bluePieces",
-  yellow: "yellowPieces",
-  red: "redPieces",
+import { COLOR_NAMES, MAX_PILE_COUNT, MAX_PILE_SIZE, MAX_TAKE_AMOUNT, MIN_PILE_COUNT, PIECE_COLOR_ORDER } from "./constants"
+import { getWinningMoves, isWinningPosition } from "./solver"
+import { getAllowedTakeCounts, getGrundyValue, getLegalMovesForCounts, isMisereNimEndgame } from "./takeRules"
+import type {
+  AIMove,
+  AIMoveReason,
+  AIMoveRecord,
+  PieceTakingAnalysis,
+  PieceTakingConfig,
+  PieceTakingGameState,
+  PieceTakingPile,
+  PieceTakingTakeRule,
+  PieceTakingTurn,
+  PieceTakingWinner,
+} from "./types"
+
+function withMoveApplied(state: PieceTakingGameState, move: AIMove): PieceTakingGameState {
+  return {
+    ...state,
+    piles: state.piles.map((pile, index) =>
+      move.pileIndices.includes(index) ? { ...pile, count: pile.count - move.count } : pile,
+    ),
+  }
 }
 
-function withPieceCount(state: PieceTakingGameState, color: PieceColor, count: number): PieceTakingGameState {
-  return { ...state, [PIECE_COUNT_KEYS[color]]: count }
-}
+// 最後に取った手番から勝者を決める
+function getWinnerAfterLastMove(state: PieceTakingGameState, takenBy: PieceTakingTurn): PieceTakingWinner {
+  if (state.playRule === "normal") {
+    return takenBy
+  }
 
-function getTotalPieceCount(state: PieceTakingGameState) {
-  return state.bluePieces + state.yellowPieces + state.redPieces
+  return takenBy === "player" ? "ai" : "player"
 }
 
 function normalizeSelection(state: PieceTakingGameState): PieceTakingGameState {
-  const availableColors = getAvailableColors(state)
+  const availablePiles = getAvailablePiles(state)
 
-  if (availableColors.length === 0) {
+  if (availablePiles.length === 0) {
     return {
       ...state,
       selectedCount: 0,
     }
   }
 
-  if (!availableColors.includes(state.selectedColor)) {
-    return {
-      ...state,
-      selectedColor: availableColors[0],
-      selectedCount: 1,
-    }
-  }
+  // 取れなくなった山を選択から外す。何も残らなければ最初の取れる山を選ぶ
+  const keptPiles = state.selectedPileIndices.filter((pileIndex) => availablePiles.includes(pileIndex))
+  const selectedPileIndices = keptPiles.length > 0 ? keptPiles : [availablePiles[0]]
+
+  // 選んでいた数が取れなくなったら、それ以下で一番大きい取れる数にする
+  const selectableCounts = getSelectableCounts(state, selectedPileIndices)
+  const fittingCounts = selectableCounts.filter((count) => count <= state.selectedCount)
 
   return {
     ...state,
-    selectedCount: Math.min(Math.max(state.selectedCount, 1), getPieceCount(state, state.selectedColor)),
+    selectedPileIndices,
+    selectedCount: fittingCounts.length > 0 ? fittingCounts[fittingCounts.length - 1] : selectableCounts[0],
   }
 }
 
-export function getPieceCount(state: PieceTakingGameState, color: PieceColor) {
-  return state[PIECE_COUNT_KEYS[color]]
+// 「青色から2個」「青色と黄色から2個ずつ」のように手を書く
+export function formatPieceTakingMove(piles: PieceTakingPile[], move: AIMove) {
+  const colorNames = move.pileIndices.map((pileIndex) => COLOR_NAMES[piles[pileIndex].color]).join("と")
+  return `${colorNames}から${move.count}個${move.pileIndices.length > 1 ? "ずつ" : ""}`
 }
 
-export function getAvailableColors(state: PieceTakingGameState): PieceColor[] {
-  return PIECE_COLOR_ORDER.filter((color) => getPieceCount(state, color) > 0)
+export function getPieceCount(state: PieceTakingGameState, pileIndex: number) {
+  return state.piles[pileIndex]?.count ?? 0
 }
 
-export function cycleSelectedColor(state: PieceTakingGameState, direction: -1 | 1): PieceTakingGameState {
-  const availableColors = getAvailableColors(state)
+// 指定した山（2つなら同じ数ずつ）から今取れる数（昇順）
+export function getSelectableCounts(state: PieceTakingGameState, pileIndices: number[]) {
+  if (pileIndices.length === 1) {
+    return getAllowedTakeCounts(state.takeRule, getPieceCount(state, pileIndices[0]))
+  }
+
+  if (pileIndices.length !== 2 || state.takeRule.type !== "wythoff") {
+    return []
+  }
+
+  const maxCount = Math.min(...pileIndices.map((pileIndex) => getPieceCount(state, pileIndex)))
+  return Array.from({ length: maxCount }, (_, index) => index + 1)
+}
+
+// 取れる数が1つ以上ある山
+export function getAvailablePiles(state: PieceTakingGameState): number[] {
+  return state.piles.flatMap((_, index) => (getSelectableCounts(state, [index]).length > 0 ? [index] : []))
+}
+
+export function validatePieceTakingConfig(config: PieceTakingConfig) {
+  const errors: string[] = []
+  const colors = config.piles.map((pile) => pile.color)
+
+  if (config.piles.length < MIN_PILE_COUNT || config.piles.length > MAX_PILE_COUNT) {
+    errors.push(`山の数は${MIN_PILE_COUNT}〜${MAX_PILE_COUNT}個にしてください`)
+  }
 
-  if (availableColors.length <= 1) {
+  if (config.piles.some((pile) => !Number.isInteger(pile.count) || pile.count < 1 || pile.count > MAX_PILE_SIZE)) {
+    errors.push(`各山のコマは1〜${MAX_PILE_SIZE}個にしてください`)
+  }
+
+  if (new Set(colors).size !== colors.length || colors.some((color) => !PIECE_COLOR_ORDER.includes(color))) {
+    errors.push("山ごとに違う色を選んでください")
+  }
+
+  errors.push(...validateTakeRule(config.takeRule))
+
+  if (config.takeRule.type === "wythoff" && config.piles.length !== 2) {
+    errors.push("2つの山から同じ数を取るルールでは、山を2つにしてください")
+  }
+
+  if (errors.length === 0 && config.piles.every((pile) => getAllowedTakeCounts(config.takeRule, pile.count).length === 0)) {
+    errors.push("最初から取れる山がありません。コマを増やすか取れる数を変えてください")
+  }
+
+  return errors
+}
+
+function validateTakeRule(takeRule: PieceTakingTakeRule) {
+  const isValidAmount = (amount: number) => Number.isInteger(amount) && amount >= 1 && amount <= MAX_TAKE_AMOUNT
+
+  switch (takeRule.type) {
+    case "any":
+    case "wythoff":
+      return []
+    case "atMost":
+      return isValidAmount(takeRule.max) ? [] : [`取れる数の上限は1〜${MAX_TAKE_AMOUNT}個にしてください`]
+    case "subtraction":
+      if (takeRule.amounts.length === 0) {
+        return ["取れる数を1つ以上選んでください"]
+      }
+
+      return takeRule.amounts.every(isValidAmount) && new Set(takeRule.amounts).size === takeRule.amounts.length
+        ? []
+        : [`取れる数は1〜${MAX_TAKE_AMOUNT}個から重複なく選んでください`]
+  }
+}
+
+// 1つ目に選んでいる山を隣の取れる山に替える（2つ選んでいた場合は1つに戻る）
+export function cycleSelectedPile(state: PieceTakingGameState, direction: -1 | 1): PieceTakingGameState {
+  const availablePiles = getAvailablePiles(state)
+  const pileCount = state.piles.length
+
+  if (availablePiles.length <= 1) {
     return state
   }
 
-  let index = PIECE_COLOR_ORDER.indexOf(state.selectedColor)
+  let index = state.selectedPileIndices[0]
 
-  for (let step = 0; step < PIECE_COLOR_ORDER.length; step += 1) {
-    index = (index + direction + PIECE_COLOR_ORDER.length) % PIECE_COLOR_ORDER.length
-    const candidate = PIECE_COLOR_ORDER[index]
+  for (let step = 0; step < pileCount; step += 1) {
+    index = (index + direction + pileCount) % pileCount
 
-    if (getPieceCount(state, candidate) > 0) {
+    if (availablePiles.includes(index)) {
       return {
         ...state,
-        selectedColor: candidate,
-        selectedCount: 1,
+        selectedPileIndices: [index],
+        selectedCount: getSelectableCounts(state, [index])[0],
       }
     }
   }
@@ -74,11 +161,38 @@ export function cycleSelectedColor(state: PieceTakingGameState, direction: -1 |
   return state
 }
 
+// wythoff で、もう1つの山から同じ数を取るかどうかを切り替える
+export function togglePairedPile(state: PieceTakingGameState): PieceTakingGameState {
+  if (state.takeRule.type !== "wythoff") {
+    return state
+  }
+
+  const [firstPileIndex] = state.selectedPileIndices
+
+  if (state.selectedPileIndices.length === 2) {
+    return normalizeSelection({ ...state, selectedPileIndices: [firstPileIndex] })
+  }
+
+  const pairedPileIndex = getAvailablePiles(state).find((pileIndex) => pileIndex !== firstPileIndex)
+
+  if (pairedPileIndex === undefined) {
+    return state
+  }
+
+  return normalizeSelection({
+    ...state,
+    selectedPileIndices: [firstPileIndex, pairedPileIndex].sort((a, b) => a - b),
+  })
+}
+
 export function changeSelectedCount(state: PieceTakingGameState, delta: -1 | 1): PieceTakingGameState {
-  const maxSelectableCount = getPieceCount(state, state.selectedColor)
-  const nextCount = Math.min(Math.max(state.selectedCount + delta, 1), maxSelectableCount)
+  const selectableCounts = getSelectableCounts(state, state.selectedPileIndices)
+  const nextCount =
+    delta > 0
+      ? selectableCounts.find((count) => count > state.selectedCount)
+      : [...selectableCounts].reverse().find((count) => count < state.selectedCount)
 
-  if (nextCount === state.selectedCount) {
+  if (nextCount === undefined) {
     return state
   }
 
@@ -88,49 +202,61 @@ export function changeSelectedCount(state: PieceTakingGameState, delta: -1 | 1):
   }
 }
 
-export function selectPile(state: PieceTakingGameState, color: PieceColor): PieceTakingGameState {
-  const pieceCount = getPieceCount(state, color)
+// 盤面で山を押したとき。選んでいる山だけを押すと取る数を増やす。
+// wythoff では、選んでいない山を押すと2つ目として加え、2つ選んでいるうちの1つを押すと外す
+export function selectPile(state: PieceTakingGameState, pileIndex: number): PieceTakingGameState {
+  const { selectedPileIndices } = state
 
-  if (pieceCount === 0) {
+  if (!getAvailablePiles(state).includes(pileIndex)) {
     return state
   }
 
-  if (state.selectedColor === color) {
-    const nextCount = Math.min(state.selectedCount + 1, pieceCount)
+  if (selectedPileIndices.length === 1 && selectedPileIndices[0] === pileIndex) {
+    return changeSelectedCount(state, 1)
+  }
 
-    if (nextCount === state.selectedCount) {
-      return state
+  if (state.takeRule.type === "wythoff") {
+    if (selectedPileIndices.includes(pileIndex)) {
+      return normalizeSelection({
+        ...state,
+        selectedPileIndices: selectedPileIndices.filter((index) => index !== pileIndex),
+      })
     }
 
-    return {
-      ...state,
-      selectedCount: nextCount,
+    if (selectedPileIndices.length === 1) {
+      return normalizeSelection({
+        ...state,
+        selectedPileIndices: [...selectedPileIndices, pileIndex].sort((a, b) => a - b),
+      })
     }
   }
 
   return {
     ...state,
-    selectedColor: color,
-    selectedCount: 1,
+    selectedPileIndices: [pileIndex],
+    selectedCount: getSelectableCounts(state, [pileIndex])[0],
   }
 }
 
 export function applyPlayerMove(state: PieceTakingGameState): PieceTakingGameState {
-  if (state.currentTurn !== "player" || state.gameOver) {
+  if (
+    state.currentTurn !== "player" ||
+    state.gameOver ||
+    !getSelectableCounts(state, state.selectedPileIndices).includes(state.selectedCount)
+  ) {
     return state
   }
 
-  const currentCount = getPieceCount(state, state.selectedColor)
   const nextState = {
-    ...withPieceCount(state, state.selectedColor, Math.max(currentCount - state.selectedCount, 0)),
+    ...withMoveApplied(state, { pileIndices: state.selectedPileIndices, count: state.selectedCount }),
     currentTurn: "ai" as const,
   }
 
-  if (getTotalPieceCount(nextState) === 0) {
+  if (getAvailablePiles(nextState).length === 0) {
     return {
       ...nextState,
       gameOver: true,
-      winner: "ai",
+      winner: getWinnerAfterLastMove(state, "player"),
     }
   }
 
@@ -140,83 +266,118 @@ export function applyPlayerMove(state: PieceTakingGameState): PieceTakingGameSta
   })
 }
 
-interface AIMove {
-  color: PieceColor
-  count: number
-}
+// 通常ルールでは各山の Grundy 数の XOR を 0 にする手が必勝手（いくつでも取れるなら Grundy 数は山の大きさそのもので、Nim 和と同じ）
+function chooseGrundyMove(state: PieceTakingGameState): AIMove | null {
+  const grundySum = state.piles.reduce((sum, pile) => sum ^ getGrundyValue(state.takeRule, pile.count), 0)
+
+  if (grundySum === 0) {
+    return null
+  }
 
-function chooseAIMove(state: PieceTakingGameState, random: () => number): AIMove {
-  const availableColors = getAvailableColors(state)
-  const blue = state.bluePieces
-  const yellow = state.yellowPieces
-  const red = state.redPieces
-  const nimSum = blue ^ yellow ^ red
+  const legalMoves = getLegalMovesForCounts(
+    state.takeRule,
+    state.piles.map((pile) => pile.count),
+  )
 
-  if (availableColors.length === 2) {
-    for (const color of availableColors) {
-      if (getPieceCount(state, color) !== 1) {
-        continue
+  return (
+    legalMoves.find(({ pileIndices, count }) => {
+      if (pileIndices.length !== 1) {
+        return false
       }
 
-      const otherColor = availableColors.find((candidate) => candidate !== color)
+      const pileSize = getPieceCount(state, pileIndices[0])
+      const grundy = getGrundyValue(state.takeRule, pileSize)
+      return (grundySum ^ grundy ^ getGrundyValue(state.takeRule, pileSize - count)) === 0
+    }) ?? null
+  )
+}
 
-      if (otherColor) {
-        return { color: otherColor, count: getPieceCount(state, otherColor) }
-      }
-    }
-  } else if (availableColors.length === 1) {
-    const onlyColor = availableColors[0]
-    const pileSize = getPieceCount(state, onlyColor)
+export function analyzePieceTakingPosition(state: PieceTakingGameState): PieceTakingAnalysis {
+  const counts = state.piles.map((pile) => pile.count)
+  const grundyValues = counts.map((count) => getGrundyValue(state.takeRule, count))
+  const isWinning = isWinningPosition(state.takeRule, state.playRule, counts)
+  const winningMoves = isWinning ? getWinningMoves(state.takeRule, state.playRule, counts) : []
 
-    if (pileSize > 1) {
-      return { color: onlyColor, count: pileSize - 1 }
-    }
+  return {
+    grundyValues,
+    grundySum: grundyValues.reduce((sum, value) => sum ^ value, 0),
+    isMisereEndgame: isMisereNimEndgame(state.takeRule, state.playRule, counts),
+    isWinning,
+    winningMoves,
   }
+}
 
-  if (availableColors.length === 3) {
-    if (blue === 1 && yellow === 1 && red > 1) {
-      return { color: "red", count: red - 1 }
-    } else if (blue === 1 && red === 1 && yellow > 1) {
-      return { color: "yellow", count: yellow - 1 }
-    } else if (yellow === 1 && red === 1 && blue > 1) {
-      return { color: "blue", count: blue - 1 }
-    }
+// 負けの局面や勝敗が分からない局面では、少しだけ取って相手のミスを待つ
+function chooseRandomMove(state: PieceTakingGameState, random: () => number): AIMove {
+  const availablePiles = getAvailablePiles(state)
+  const randomPileIndex = availablePiles[Math.floor(random() * availablePiles.length)]
+  const smallCounts = getSelectableCounts(state, [randomPileIndex]).slice(0, 2)
+
+  return { pileIndices: [randomPileIndex], count: smallCounts[Math.floor(random() * smallCounts.length)] }
+}
+
+// 相手を P 局面にする手が、どの考え方で選ばれたか
+function getWinningMoveReason(state: PieceTakingGameState, move: AIMove): AIMoveReason {
+  const nextState = withMoveApplied(state, move)
+  const nextCounts = nextState.piles.map((pile) => pile.count)
+
+  if (state.playRule === "normal" && getAvailablePiles(nextState).length === 0) {
+    return nextCounts.every((count) => count === 0) ? { type: "finish" } : { type: "noMovesLeft" }
   }
 
-  if (nimSum !== 0) {
-    for (const color of PIECE_COLOR_ORDER) {
-      const pileSize = getPieceCount(state, color)
-      const target = pileSize ^ nimSum
+  if (state.takeRule.type === "wythoff" && nextCounts.length === 2) {
+    const [smaller, larger] = [...nextCounts].sort((a, b) => a - b)
+    return { type: "wythoff", position: [smaller, larger] }
+  }
 
-      if (target < pileSize) {
-        return { color, count: pileSize - target }
-      }
-    }
+  if (isMisereNimEndgame(state.takeRule, state.playRule, nextCounts)) {
+    return { type: "misereEndgame", singlePileCount: nextCounts.filter((count) => count === 1).length }
+  }
+
+  if (state.playRule === "misere" && state.takeRule.type !== "any") {
+    return { type: "solved" }
+  }
+
+  return { type: "zeroSum", usesGrundy: state.takeRule.type !== "any" }
+}
+
+// 相手を P 局面にする手を選ぶ。取れる数が決まっている misère で読み切れない大きな局面では
+// 通常ルールの戦略で指し、局面が小さくなったら読み切る。
+// 読み切れずに Grundy 数の XOR も 0 の局面では、通常ルールで勝てる手がそもそも無いので目安にする手がなく、
+// 勝敗が分からないまま少しだけ取る。このときの AI は読み切れる局面より弱い
+function chooseAIMove(state: PieceTakingGameState, random: () => number): AIMoveRecord {
+  const analysis = analyzePieceTakingPosition(state)
+
+  if (analysis.isWinning === null) {
+    const guideMove = chooseGrundyMove(state)
+
+    return guideMove
+      ? { ...guideMove, reason: { type: "grundyGuide" } }
+      : { ...chooseRandomMove(state, random), reason: { type: "unsolved" } }
   }
 
-  const randomColor = availableColors[Math.floor(random() * availableColors.length)]
-  const pileSize = getPieceCount(state, randomColor)
-  const maxRemoval = Math.min(2, pileSize)
-  const removalCount = Math.floor(random() * maxRemoval) + 1
+  if (analysis.winningMoves.length > 0) {
+    const move = analysis.winningMoves[0]
+    return { ...move, reason: getWinningMoveReason(state, move) }
+  }
 
-  return { color: randomColor, count: removalCount }
+  return { ...chooseRandomMove(state, random), reason: { type: "stall" } }
 }
 
 export function applyAIMove(state: PieceTakingGameState, random = Math.random): PieceTakingGameState {
   const move = chooseAIMove(state, random)
-  const currentCount = getPieceCount(state, move.color)
   const nextState = {
-    ...withPieceCount(state, move.color, currentCount - move.count),
-    selectedColor: move.color,
-    lastAIMove: { color: move.color, count: move.count },
+    ...withMoveApplied(state, move),
+    selectedPileIndices: [move.pileIndices[0]],
+    lastAIMove: move,
   }
 
-  if (getTotalPieceCount(nextState) === 0) {
+  if (getAvailablePiles(nextState).length === 0) {
     return {
       ...nextState,
       currentTurn: "player" as const,
       gameOver: true,
-      winner: "player" as const,
+      winner: getWinnerAfterLastMove(state, "ai"),
     }
   }
 
@@ -0,0 +1,180 @@
+import { createRandomSeed, createSeededRandom } from "../../utils/seededRandom"
+import {
+  createInitialPieceTakingState,
+  DEFAULT_PIECE_TAKING_PUZZLE_SETTINGS,
+  PIECE_COLOR_ORDER,
+  PUZZLE_DIFFICULTY_SETTINGS,
+} from "./constants"
+import { getSelectableCounts } from "./logic"
+import { getWinningMoves, MAX_SOLVER_STATES, solvePosition } from "./solver"
+import { applyMoveToCounts } from "./takeRules"
+import type { AIMove, PieceTakingGameState, PieceTakingPuzzleSession, PieceTakingPuzzleSettings } from "./types"
+
+// 条件に合う局面を探す回数の上限。見つからなければ「正解が1つだけ」の条件を外して探し直す
+const MAX_PUZZLE_ATTEMPTS = 200
+// ランダムに見つからなかったときに、小さい局面から順に調べる数の上限
+const MAX_FALLBACK_CANDIDATES = 5000
+
+// 2つの山から同じ数を取るルールは2山で遊ぶので、山の数の設定によらず2山で出題する
+export function getPuzzlePileCount(settings: PieceTakingPuzzleSettings) {
+  return settings.takeRule.type === "wythoff" ? 2 : settings.pileCount
+}
+
+// 正解をすべて読み切りで確かめられるよう、（コマの数 + 1）の積が読み切りの上限に収まる大きさまでにする
+function getPuzzlePileSizeRange(settings: PieceTakingPuzzleSettings, pileCount: number) {
+  const { minPileSize, maxPileSize } = PUZZLE_DIFFICULTY_SETTINGS[settings.difficulty]
+  const solvablePileSize = Math.floor(MAX_SOLVER_STATES ** (1 / pileCount)) - 1
+  return { minPileSize, maxPileSize: Math.max(minPileSize, Math.min(maxPileSize, solvablePileSize)) }
+}
+
+// 手番側が必勝（N 局面）で、正解の手が1つ以上ある局面か。misère では取れる山がないまま勝ちになる局面もあるので、手の有無も確かめる
+function isPuzzlePosition(settings: PieceTakingPuzzleSettings, counts: number[]) {
+  return (
+    solvePosition(settings.takeRule, settings.playRule, counts) === true &&
+    getWinningMoves(settings.takeRule, settings.playRule, counts).length > 0
+  )
+}
+
+// 手番側が必勝（N 局面）になる山の並びをランダムに探す
+function findPuzzlePosition(settings: PieceTakingPuzzleSettings, random: () => number, requiresUniqueAnswer: boolean) {
+  const pileCount = getPuzzlePileCount(settings)
+  const { minPileSize, maxPileSize } = getPuzzlePileSizeRange(settings, pileCount)
+
+  for (let attempt = 0; attempt < MAX_PUZZLE_ATTEMPTS; attempt += 1) {
+    const counts = Array.from(
+      { length: pileCount },
+      () => minPileSize + Math.floor(random() * (maxPileSize - minPileSize + 1)),
+    )
+
+    if (!isPuzzlePosition(settings, counts)) {
+      continue
+    }
+
+    if (!requiresUniqueAnswer || getWinningMoves(settings.takeRule, settings.playRule, counts).length === 1) {
+      return counts
+    }
+  }
+
+  return null
+}
+
+// ランダムに見つからなかったときは、すべての山が 0 の局面から1つずつ数え上げて、最初に見つかった出題できる局面を使う
+function findSmallestPuzzlePosition(settings: PieceTakingPuzzleSettings) {
+  const pileCount = getPuzzlePileCount(settings)
+  const { maxPileSize } = getPuzzlePileSizeRange(settings, pileCount)
+  const counts = Array<number>(pileCount).fill(0)
+
+  for (let candidate = 0; candidate < MAX_FALLBACK_CANDIDATES; candidate += 1) {
+    let pileIndex = pileCount - 1
+
+    while (pileIndex >= 0 && counts[pileIndex] === maxPileSize) {
+      counts[pileIndex] = 0
+      pileIndex -= 1
+    }
+
+    if (pileIndex < 0) {
+      return null
+    }
+
+    counts[pileIndex] += 1
+
+    if (isPuzzlePosition(settings, counts)) {
+      return counts
+    }
+  }
+
+  return null
+}
+
+// 出題できる局面が見つからなければ、すべての山が 0 で正解のない局面にする（画面では出題できないと表示する）
+function createPuzzle(settings: PieceTakingPuzzleSettings, random: () => number) {
+  const { uniqueAnswer } = PUZZLE_DIFFICULTY_SETTINGS[settings.difficulty]
+  const counts =
+    (uniqueAnswer ? findPuzzlePosition(settings, random, true) : null) ??
+    findPuzzlePosition(settings, random, false) ??
+    findSmallestPuzzlePosition(settings) ??
+    Array<number>(getPuzzlePileCount(settings)).fill(0)
+
+  return {
+    gameState: createInitialPieceTakingState({
+      piles: counts.map((count, index) => ({ color: PIECE_COLOR_ORDER[index], count })),
+      playRule: settings.playRule,
+      takeRule: settings.takeRule,
+      firstTurn: "player",
+    }),
+    winningMoves: getWinningMoves(settings.takeRule, settings.playRule, counts),
+  }
+}
+
+// 連続正解数を引き継いで次の問題を作る。seed はセッションに保存したものから進める
+export function createPieceTakingPuzzleSession(
+  settings: PieceTakingPuzzleSettings,
+  randomSeed: number,
+  streak = 0,
+  bestStreak = 0,
+): PieceTakingPuzzleSession {
+  const { random, getSeed } = createSeededRandom(randomSeed)
+  const puzzle = createPuzzle(settings, random)
+
+  return {
+    settings,
+    ...puzzle,
+    feedback: null,
+    streak,
+    bestStreak,
+    randomSeed: getSeed(),
+  }
+}
+
+export function createInitialPieceTakingPuzzleSession(
+  settings: PieceTakingPuzzleSettings = DEFAULT_PIECE_TAKING_PUZZLE_SETTINGS,
+  randomSeed = createRandomSeed(),
+) {
+  return createPieceTakingPuzzleSession(settings, randomSeed)
+}
+
+export function isSameMove(move: AIMove, otherMove: AIMove) {
+  return move.count === otherMove.count && move.pileIndices.join(",") === otherMove.pileIndices.join(",")
+}
+
+// 選んでいる手で答える。正解なら連続正解数を増やし、不正解なら 0 に戻す
+export function answerPieceTakingPuzzle(session: PieceTakingPuzzleSession): PieceTakingPuzzleSession {
+  const { gameState } = session
+
+  if (session.feedback || !getSelectableCounts(gameState, gameState.selectedPileIndices).includes(gameState.selectedCount)) {
+    return session
+  }
+
+  const move = { pileIndices: gameState.selectedPileIndices, count: gameState.selectedCount }
+  const correct = session.winningMoves.some((winningMove) => isSameMove(winningMove, move))
+  const streak = correct ? session.streak + 1 : 0
+
+  return {
+    ...session,
+    feedback: { move, correct },
+    streak,
+    bestStreak: Math.max(session.bestStreak, streak),
+  }
+}
+
+// 次の問題へ進む。答えずに進んだ場合は連続正解が途切れる
+export function createNextPieceTakingPuzzle(
+  session: PieceTakingPuzzleSession,
+  settings = session.settings,
+): PieceTakingPuzzleSession {
+  return createPieceTakingPuzzleSession(
+    settings,
+    session.randomSeed,
+    session.feedback ? session.streak : 0,
+    session.bestStreak,
+  )
+}
+
+// 不正解の手を指したあと、相手が勝てる返し手の1つ
+export function getPuzzleRefutation(gameState: PieceTakingGameState, move: AIMove): AIMove | null {
+  const counts = applyMoveToCounts(
+    gameState.piles.map((pile) => pile.count),
+    move,
+  )
+  return getWinningMoves(gameState.takeRule, gameState.playRule, counts)[0] ?? null
+}
@@ -0,0 +1,69 @@
+import { applyMoveToCounts, getLegalMovesForCounts, getTakeRuleKey, getTheoreticalWinning } from "./takeRules"
+import type { AIMove, PieceTakingPlayRule, PieceTakingTakeRule } from "./types"
+
+// 読み切る局面の数の上限。各山の（コマの数 + 1）の積で見積もり、超える局面は定理で判定する
+export const MAX_SOLVER_STATES = 200_000
+
+const solutionCache = new Map<string, boolean>()
+
+// 山の順番は勝敗に関係しないので、昇順に並べた組を1つの局面として読む
+function solveSortedCounts(
+  takeRule: PieceTakingTakeRule,
+  playRule: PieceTakingPlayRule,
+  ruleKey: string,
+  counts: number[],
+): boolean {
+  const key = `${ruleKey}|${playRule}|${counts.join(",")}`
+  const cached = solutionCache.get(key)
+
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const moves = getLegalMovesForCounts(takeRule, counts)
+  const winning = moves.some(
+    (move) => !solveSortedCounts(takeRule, playRule, ruleKey, applyMoveToCounts(counts, move).sort((a, b) => a - b)),
+  )
+
+  // 取れる手がなければ直前に取った相手が最後に取ったことになる。通常ルールなら手番側の負け、misère なら勝ち
+  const result = moves.length > 0 ? winning : playRule === "misere"
+  solutionCache.set(key, result)
+  return result
+}
+
+export function canSolvePosition(counts: number[]) {
+  return counts.reduce((product, count) => product * (count + 1), 1) <= MAX_SOLVER_STATES
+}
+
+// 手番側が必勝かどうかを最後まで読んで判定する。大きすぎる局面は null
+export function solvePosition(
+  takeRule: PieceTakingTakeRule,
+  playRule: PieceTakingPlayRule,
+  counts: number[],
+): boolean | null {
+  if (!canSolvePosition(counts)) {
+    return null
+  }
+
+  return solveSortedCounts(takeRule, playRule, getTakeRuleKey(takeRule), [...counts].sort((a, b) => a - b))
+}
+
+// 読み切れる局面は読み切り、大きな局面は定理で判定する。どちらでも分からなければ null
+export function isWinningPosition(
+  takeRule: PieceTakingTakeRule,
+  playRule: PieceTakingPlayRule,
+  counts: number[],
+): boolean | null {
+  return solvePosition(takeRule, playRule, counts) ?? getTheoreticalWinning(takeRule, playRule, counts)
+}
+
+// 相手を必敗の局面にする手をすべて返す
+export function getWinningMoves(
+  takeRule: PieceTakingTakeRule,
+  playRule: PieceTakingPlayRule,
+  counts: number[],
+): AIMove[] {
+  return getLegalMovesForCounts(takeRule, counts).filter(
+    (move) => isWinningPosition(takeRule, playRule, applyMoveToCounts(counts, move)) === false,
+  )
+}
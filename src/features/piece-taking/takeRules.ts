@@ -0,0 +1,146 @@
+import type { AIMove, PieceTakingPlayRule, PieceTakingTakeRule } from "./types"
+
+const GOLDEN_RATIO = (1 + Math.sqrt(5)) / 2
+
+const grundyCache = new Map<string, number[]>()
+
+export function getTakeRuleKey(takeRule: PieceTakingTakeRule) {
+  switch (takeRule.type) {
+    case "any":
+    case "wythoff":
+      return takeRule.type
+    case "atMost":
+      return `atMost:${takeRule.max}`
+    case "subtraction":
+      return `subtraction:${[...takeRule.amounts].sort((a, b) => a - b).join(",")}`
+  }
+}
+
+// 1つの山から取れる数（昇順）
+export function getAllowedTakeCounts(takeRule: PieceTakingTakeRule, pileSize: number): number[] {
+  switch (takeRule.type) {
+    case "any":
+    case "wythoff":
+      return Array.from({ length: pileSize }, (_, index) => index + 1)
+    case "atMost":
+      return Array.from({ length: Math.min(takeRule.max, pileSize) }, (_, index) => index + 1)
+    case "subtraction":
+      return [...new Set(takeRule.amounts)].filter((amount) => amount <= pileSize).sort((a, b) => a - b)
+  }
+}
+
+export function formatTakeRule(takeRule: PieceTakingTakeRule) {
+  switch (takeRule.type) {
+    case "any":
+      return "1回に取るコマは1個以上いくつでも構いません"
+    case "atMost":
+      return `1回に取れるコマは1〜${takeRule.max}個です`
+    case "subtraction":
+      return `1回に取れるコマの数は ${[...takeRule.amounts].sort((a, b) => a - b).join("・")} 個のどれかです`
+    case "wythoff":
+      return "1つの山からいくつでも取るか、2つの山から同じ数ずつ取れます"
+  }
+}
+
+// 各山の大きさ counts の局面で指せるすべての手
+export function getLegalMovesForCounts(takeRule: PieceTakingTakeRule, counts: number[]): AIMove[] {
+  const singleMoves = counts.flatMap((pileSize, pileIndex) =>
+    getAllowedTakeCounts(takeRule, pileSize).map((count) => ({ pileIndices: [pileIndex], count })),
+  )
+
+  if (takeRule.type !== "wythoff") {
+    return singleMoves
+  }
+
+  const pairMoves = counts.flatMap((firstSize, firstIndex) =>
+    counts.slice(firstIndex + 1).flatMap((secondSize, offset) =>
+      Array.from({ length: Math.min(firstSize, secondSize) }, (_, index) => ({
+        pileIndices: [firstIndex, firstIndex + offset + 1],
+        count: index + 1,
+      })),
+    ),
+  )
+
+  return [...singleMoves, ...pairMoves]
+}
+
+export function applyMoveToCounts(counts: number[], move: AIMove) {
+  return counts.map((count, index) => (move.pileIndices.includes(index) ? count - move.count : count))
+}
+
+// Wythoff のゲームの P 局面（小さい順の2山）を、小さい方の山が maxSize 以下の範囲で返す。
+// 通常ルールは k 番目が (⌊kφ⌋, ⌊kφ⌋ + k)。misère は (0, 0) と (1, 2) が (0, 1) と (2, 2) に入れ替わる
+export function getWythoffPPositions(playRule: PieceTakingPlayRule, maxSize: number): [number, number][] {
+  const positions: [number, number][] = []
+
+  for (let k = 0; Math.floor(k * GOLDEN_RATIO) <= maxSize; k += 1) {
+    const smaller = Math.floor(k * GOLDEN_RATIO)
+    positions.push([smaller, smaller + k])
+  }
+
+  if (playRule === "misere") {
+    positions.splice(0, Math.min(2, positions.length), [0, 1], [2, 2])
+  }
+
+  return positions.filter(([smaller]) => smaller <= maxSize)
+}
+
+// 1つの山の Grundy 数。取れる数ごとの遷移先の Grundy 数に含まれない最小の値（mex）
+export function getGrundyValue(takeRule: PieceTakingTakeRule, pileSize: number) {
+  if (takeRule.type === "any") {
+    return pileSize
+  }
+
+  const key = getTakeRuleKey(takeRule)
+  const values = grundyCache.get(key) ?? []
+
+  for (let size = values.length; size <= pileSize; size += 1) {
+    const reachable = new Set(getAllowedTakeCounts(takeRule, size).map((amount) => values[size - amount]))
+    let grundy = 0
+
+    while (reachable.has(grundy)) {
+      grundy += 1
+    }
+
+    values.push(grundy)
+  }
+
+  grundyCache.set(key, values)
+  return values[pileSize]
+}
+
+// いくつでも取れる misère Nim で、2個以上の山がない終盤かどうか。このときだけ Nim 和で勝敗が決まらない
+export function isMisereNimEndgame(takeRule: PieceTakingTakeRule, playRule: PieceTakingPlayRule, counts: number[]) {
+  return takeRule.type === "any" && playRule === "misere" && counts.every((count) => count <= 1)
+}
+
+// 定理から分かる範囲で、手番側が必勝かどうか。通常ルールは Grundy 数の XOR で判定し、
+// いくつでも取れる misère は終盤（1個の山の数が偶数なら必勝）以外は通常ルールと同じになる。
+// 2山の Wythoff のゲームは黄金比で決まる P 局面かどうかで判定する。
+// 取れる数が決まっている misère と、3山以上の Wythoff のゲームは定理では決まらないので null
+export function getTheoreticalWinning(
+  takeRule: PieceTakingTakeRule,
+  playRule: PieceTakingPlayRule,
+  counts: number[],
+): boolean | null {
+  if (isMisereNimEndgame(takeRule, playRule, counts)) {
+    return counts.filter((count) => count === 1).length % 2 === 0
+  }
+
+  if (takeRule.type === "wythoff") {
+    if (counts.length !== 2) {
+      return null
+    }
+
+    const [smaller, larger] = [...counts].sort((a, b) => a - b)
+    return !getWythoffPPositions(playRule, smaller).some(
+      (position) => position[0] === smaller && position[1] === larger,
+    )
+  }
+
+  if (playRule === "normal" || takeRule.type === "any") {
+    return counts.reduce((sum, count) => sum ^ getGrundyValue(takeRule, count), 0) !== 0
+  }
+
+  return null
+}
@@ -1,25 +1,129 @@
-export type PieceColor = "blue" | "yellow" | "red"
+import type { RandomSeedState } from "../../utils/seededRandom"
+
+export type PieceColor = "blue" | "yellow" | "red" | "green" | "purple" | "orange"
 export type PieceTakingTurn = "player" | "ai"
 export type PieceTakingWinner = "player" | "ai" | null
+export type PieceTakingPhase = "setup" | "playing"
 
-export interface AIMove {
+export interface PieceTakingPile {
   color: PieceColor
   count: number
 }
 
+// normal: 最後の1個を取った方が勝ち、misere: 最後の1個を取った方が負け
+export type PieceTakingPlayRule = "normal" | "misere"
+
+// 1手で取れる数。any: 1個以上いくつでも、atMost: 1〜max 個、subtraction: amounts のどれか、
+// wythoff: 1つの山からいくつでも、または2つの山から同じ数ずつ（Wythoff のゲーム）
+export type PieceTakingTakeRule =
+  | { type: "any" }
+  | { type: "atMost"; max: number }
+  | { type: "subtraction"; amounts: number[] }
+  | { type: "wythoff" }
+
+// 先手。random はゲームを始めるたびにコイントスで決める
+export type PieceTakingFirstTurn = PieceTakingTurn | "random"
+
+// 山の並びと各山の初期個数。色は山ごとに異なる
+export interface PieceTakingConfig {
+  piles: PieceTakingPile[]
+  playRule: PieceTakingPlayRule
+  takeRule: PieceTakingTakeRule
+  firstTurn: PieceTakingFirstTurn
+}
+
+// 1手。pileIndices の山（昇順、wythoff のときだけ2つになりうる）から count 個ずつ取る
+export interface AIMove {
+  pileIndices: number[]
+  count: number
+}
+
+// AI がその手を選んだ理由
+export type AIMoveReason =
+  // 通常ルールで、すべての山のコマを取り切った
+  | { type: "finish" }
+  // 通常ルールで、コマは残っているが相手が取れる山をなくした（取れる数が決まっているルール）
+  | { type: "noMovesLeft" }
+  // XOR（いくつでも取れるなら Nim 和、それ以外は Grundy 数の XOR）を 0 にした
+  | { type: "zeroSum"; usesGrundy: boolean }
+  // いくつでも取れる misère の終盤で、1個の山を奇数個残した
+  | { type: "misereEndgame"; singlePileCount: number }
+  // 取れる数が決まっている misère で、最後まで読んで相手が必ず負ける局面にした
+  | { type: "solved" }
+  // Wythoff のゲームで、黄金比で決まる P 局面（小さい順の2山）にした
+  | { type: "wythoff"; position: [number, number] }
+  // 大きすぎて読み切れないので、Grundy 数の XOR を 0 にする手を目安に選んだ
+  | { type: "grundyGuide" }
+  // 読み切れず、Grundy 数の XOR も 0 で目安の手がないので、勝敗が分からないまま少しだけ取った
+  | { type: "unsolved" }
+  // 読み切って必敗と分かった局面なので、少しだけ取って相手のミスを待つ
+  | { type: "stall" }
+
+export interface AIMoveRecord extends AIMove {
+  reason: AIMoveReason
+}
+
 export interface PieceTakingGameState {
-  bluePieces: number
-  yellowPieces: number
-  redPieces: number
+  piles: PieceTakingPile[]
+  playRule: PieceTakingPlayRule
+  takeRule: PieceTakingTakeRule
   currentTurn: PieceTakingTurn
-  selectedColor: PieceColor
+  // 取ろうとしている山（昇順）。wythoff のときだけ2つ選べる
+  selectedPileIndices: number[]
   selectedCount: number
   gameOver: boolean
   winner: PieceTakingWinner
-  lastAIMove: AIMove | null
+  lastAIMove: AIMoveRecord | null
+}
+
+// 必勝法の解説に使う局面の解析結果
+export interface PieceTakingAnalysis {
+  // 各山の Grundy 数（いくつでも取れるなら山の大きさそのもの）
+  grundyValues: number[]
+  grundySum: number
+  // いくつでも取れる misère で、1個以下の山しか残っていない
+  isMisereEndgame: boolean
+  // 手番側が必勝（N 局面）なら true、必敗（P 局面）なら false。読み切れない場合は null
+  isWinning: boolean | null
+  // 相手を P 局面にする手
+  winningMoves: AIMove[]
 }
 
-export interface PieceTakingSession {
+// seed は先手のコイントスと、AI が負けの局面で取る山と数を選ぶのに使う
+export interface PieceTakingSession extends RandomSeedState {
+  phase: PieceTakingPhase
+  config: PieceTakingConfig
   gameState: PieceTakingGameState
   history: PieceTakingGameState[]
+  showStrategy: boolean
+}
+
+// 練習問題の難しさ。大きいほど山が大きく、hard では正解の手が1つに絞られた局面を選ぶ
+export type PieceTakingPuzzleDifficulty = "easy" | "normal" | "hard"
+
+export interface PieceTakingPuzzleSettings {
+  pileCount: number
+  difficulty: PieceTakingPuzzleDifficulty
+  playRule: PieceTakingPlayRule
+  takeRule: PieceTakingTakeRule
+}
+
+// 答えた手と、それが相手を P 局面にする手だったかどうか
+export interface PieceTakingPuzzleFeedback {
+  move: AIMove
+  correct: boolean
+}
+
+export interface PieceTakingPuzzleSession {
+  settings: PieceTakingPuzzleSettings
+  // 出題中の局面。手番は常にあなた
+  gameState: PieceTakingGameState
+  // 相手を P 局面にする手（正解）すべて
+  winningMoves: AIMove[]
+  feedback: PieceTakingPuzzleFeedback | null
+  // 連続正解数と、その最高記録
+  streak: number
+  bestStreak: number
+  // 出題の局面を選ぶ乱数の seed。問題を作るたびに進む
+  randomSeed: number
 }
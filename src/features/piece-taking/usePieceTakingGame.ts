@@ -1,52 +1,76 @@
-import { useEffect } from "react"
+import { useEffect, useMemo } from "react"
 import { usePersistentState } from "../../hooks/usePersistentState"
+import { createSeededRandom } from "../../utils/seededRandom"
 import {
   createInitialPieceTakingSession,
   PIECE_TAKING_STORAGE_KEY,
   PIECE_TAKING_STORAGE_VERSION,
 } from "./constants"
 import {
+  analyzePieceTakingPosition,
   applyAIMove,
   applyPlayerMove,
   changeSelectedCount,
-  cycleSelectedColor,
-  getAvailableColors,
-  getPieceCount,
+  cycleSelectedPile,
+  getAvailablePiles,
+  getSelectableCounts,
   selectPile,
+  togglePairedPile,
 } from "./logic"
-import type { PieceColor, PieceTakingSession } from "./types"
+import type { PieceTakingConfig, PieceTakingGameState, PieceTakingSession } from "./types"
+
+// 戻り先は、あなたが最後に指す前の局面（history の中で一番新しい、あなたの手番の局面）
+function findUndoIndex(history: PieceTakingGameState[]) {
+  for (let index = history.length - 1; index >= 0; index -= 1) {
+    if (history[index].currentTurn === "player") {
+      return index
+    }
+  }
+
+  return -1
+}
 
 export function usePieceTakingGame() {
-  const [session, setSession, resetSession] = usePersistentState<PieceTakingSession>(
+  const [session, setSession] = usePersistentState<PieceTakingSession>(
     PIECE_TAKING_STORAGE_KEY,
     createInitialPieceTakingSession,
     { version: PIECE_TAKING_STORAGE_VERSION },
   )
-  const { gameState, history } = session
+  const { phase, config, gameState, history, showStrategy, initialRandomSeed, randomSeed } = session
+  const analysis = useMemo(
+    () => (showStrategy && !gameState.gameOver ? analyzePieceTakingPosition(gameState) : null),
+    [gameState, showStrategy],
+  )
 
   useEffect(() => {
-    if (gameState.currentTurn !== "ai" || gameState.gameOver) {
+    if (phase !== "playing" || gameState.currentTurn !== "ai" || gameState.gameOver) {
       return
     }
 
+    // 読み切りは重いので更新関数の外で一度だけ行い、その間に局面が変わっていなければ反映する
     const timerId = window.setTimeout(() => {
-      setSession((previousSession) => {
-        if (previousSession.gameState.currentTurn !== "ai" || previousSession.gameState.gameOver) {
-          return previousSession
-        }
+      const { random, getSeed } = createSeededRandom(randomSeed)
+      const nextGameState = applyAIMove(gameState, random)
+      const nextRandomSeed = getSeed()
 
-        return {
-          gameState: applyAIMove(previousSession.gameState),
-          history: [...previousSession.history, previousSession.gameState],
-        }
-      })
+      setSession((previousSession) =>
+        previousSession.gameState === gameState
+          ? {
+              ...previousSession,
+              gameState: nextGameState,
+              history: [...previousSession.history, previousSession.gameState],
+              randomSeed: nextRandomSeed,
+              randomSeedHistory: [...previousSession.randomSeedHistory, previousSession.randomSeed],
+            }
+          : previousSession,
+      )
     }, 500)
 
     return () => window.clearTimeout(timerId)
-  }, [gameState.currentTurn, gameState.gameOver, setSession])
+  }, [gameState, phase, randomSeed, setSession])
 
-  const availableColors = getAvailableColors(gameState)
-  const maxSelectableCount = getPieceCount(gameState, gameState.selectedColor)
+  const availablePiles = getAvailablePiles(gameState)
+  const selectableCounts = getSelectableCounts(gameState, gameState.selectedPileIndices)
 
   const updateSelection = (updater: (state: typeof gameState) => typeof gameState) => {
     setSession((previousSession) => ({
@@ -64,44 +88,79 @@ export function usePieceTakingGame() {
       }
 
       return {
+        ...previousSession,
         gameState: nextGameState,
         history: [...previousSession.history, previousSession.gameState],
+        randomSeedHistory: [...previousSession.randomSeedHistory, previousSession.randomSeed],
       }
     })
   }
 
   return {
+    phase,
+    config,
     gameState,
     history,
-    availableColors,
-    maxSelectableCount,
-    canUndo: history.length >= 2,
-    handlePileSelect: (color: PieceColor) => updateSelection((state) => selectPile(state, color)),
-    handleNextColor: () => updateSelection((state) => cycleSelectedColor(state, 1)),
-    handlePrevColor: () => updateSelection((state) => cycleSelectedColor(state, -1)),
+    availablePiles,
+    selectableCounts,
+    showStrategy,
+    analysis,
+    initialRandomSeed,
+    // AI が先手なら、最初の局面は AI の手番
+    firstTurn: history.length > 0 ? history[0].currentTurn : gameState.currentTurn,
+    canUndo: findUndoIndex(history) >= 0,
+    handlePileSelect: (pileIndex: number) => updateSelection((state) => selectPile(state, pileIndex)),
+    handleNextPile: () => updateSelection((state) => cycleSelectedPile(state, 1)),
+    handlePrevPile: () => updateSelection((state) => cycleSelectedPile(state, -1)),
+    handleTogglePairedPile: () => updateSelection(togglePairedPile),
     handleIncreaseCount: () => updateSelection((state) => changeSelectedCount(state, 1)),
     handleDecreaseCount: () => updateSelection((state) => changeSelectedCount(state, -1)),
     handleConfirmMove: () => commitTurn(applyPlayerMove),
     handleUndo: () => {
       setSession((previousSession) => {
-        if (previousSession.history.length < 2) {
-          return previousSession
-        }
+        const undoIndex = findUndoIndex(previousSession.history)
 
-        const nextHistory = [...previousSession.history]
-        nextHistory.pop()
-        const restoredState = nextHistory.pop()
-
-        if (!restoredState) {
+        if (undoIndex < 0) {
           return previousSession
         }
 
         return {
-          gameState: restoredState,
-          history: nextHistory,
+          ...previousSession,
+          gameState: previousSession.history[undoIndex],
+          history: previousSession.history.slice(0, undoIndex),
+          randomSeed: previousSession.randomSeedHistory[undoIndex],
+          randomSeedHistory: previousSession.randomSeedHistory.slice(0, undoIndex),
         }
       })
     },
-    handleRestart: () => resetSession(),
+    handleToggleStrategy: () => {
+      setSession((previousSession) => ({ ...previousSession, showStrategy: !previousSession.showStrategy }))
+    },
+    handleStart: (nextConfig: PieceTakingConfig) => {
+      setSession((previousSession) =>
+        createInitialPieceTakingSession(nextConfig, "playing", previousSession.showStrategy),
+      )
+    },
+    handleOpenSetup: () => {
+      setSession((previousSession) => ({ ...previousSession, phase: "setup" }))
+    },
+    // 設定はそのままで最初から遊ぶ
+    handleRestart: () => {
+      setSession((previousSession) =>
+        createInitialPieceTakingSession(previousSession.config, "playing", previousSession.showStrategy),
+      )
+    },
+    // タイトルへ戻るときは対局を片付け、次に開いたときは同じ設定の設定画面から始める
+    handleQuit: () => {
+      setSession((previousSession) =>
+        createInitialPieceTakingSession(previousSession.config, "setup", previousSession.showStrategy),
+      )
+    },
+    // 入力した seed で、設定はそのままで最初から遊ぶ。先手をランダムにしていればコイントスも同じになる
+    handleStartWithSeed: (seed: number) => {
+      setSession((previousSession) =>
+        createInitialPieceTakingSession(previousSession.config, "playing", previousSession.showStrategy, seed),
+      )
+    },
   }
 }
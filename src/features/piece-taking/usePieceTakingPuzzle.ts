@@ -0,0 +1,43 @@
+import { usePersistentState } from "../../hooks/usePersistentState"
+import { PIECE_TAKING_PUZZLE_STORAGE_KEY, PIECE_TAKING_PUZZLE_STORAGE_VERSION } from "./constants"
+import { changeSelectedCount, cycleSelectedPile, getAvailablePiles, getSelectableCounts, selectPile, togglePairedPile } from "./logic"
+import { answerPieceTakingPuzzle, createInitialPieceTakingPuzzleSession, createNextPieceTakingPuzzle } from "./puzzle"
+import type { PieceTakingPuzzleSession, PieceTakingPuzzleSettings } from "./types"
+
+export function usePieceTakingPuzzle() {
+  const [session, setSession] = usePersistentState<PieceTakingPuzzleSession>(
+    PIECE_TAKING_PUZZLE_STORAGE_KEY,
+    createInitialPieceTakingPuzzleSession,
+    { version: PIECE_TAKING_PUZZLE_STORAGE_VERSION },
+  )
+  const { settings, gameState, winningMoves, feedback, streak, bestStreak } = session
+
+  // 答えたあとは手を選び直せない
+  const updateSelection = (updater: (state: typeof gameState) => typeof gameState) => {
+    setSession((previousSession) =>
+      previousSession.feedback ? previousSession : { ...previousSession, gameState: updater(previousSession.gameState) },
+    )
+  }
+
+  return {
+    settings,
+    gameState,
+    winningMoves,
+    feedback,
+    streak,
+    bestStreak,
+    availablePiles: getAvailablePiles(gameState),
+    selectableCounts: getSelectableCounts(gameState, gameState.selectedPileIndices),
+    handlePileSelect: (pileIndex: number) => updateSelection((state) => selectPile(state, pileIndex)),
+    handleNextPile: () => updateSelection((state) => cycleSelectedPile(state, 1)),
+    handlePrevPile: () => updateSelection((state) => cycleSelectedPile(state, -1)),
+    handleTogglePairedPile: () => updateSelection(togglePairedPile),
+    handleIncreaseCount: () => updateSelection((state) => changeSelectedCount(state, 1)),
+    handleDecreaseCount: () => updateSelection((state) => changeSelectedCount(state, -1)),
+    handleAnswer: () => setSession(answerPieceTakingPuzzle),
+    handleNextPuzzle: () => setSession((previousSession) => createNextPieceTakingPuzzle(previousSession)),
+    handleChangeSettings: (nextSettings: PieceTakingPuzzleSettings) => {
+      setSession((previousSession) => createNextPieceTakingPuzzle(previousSession, nextSettings))
+    },
+  }
+}
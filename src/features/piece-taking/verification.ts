@@ -0,0 +1,111 @@
+import { createInitialPieceTakingState, PIECE_COLOR_ORDER } from "./constants"
+import { applyAIMove } from "./logic"
+import { solvePosition } from "./solver"
+import { getAllowedTakeCounts, getTheoreticalWinning } from "./takeRules"
+import type { AIMove, PieceTakingPlayRule, PieceTakingTakeRule } from "./types"
+
+export interface PieceTakingVerificationOptions {
+  maxPileCount: number
+  maxPileSize: number
+  takeRules: PieceTakingTakeRule[]
+  playRules: PieceTakingPlayRule[]
+}
+
+// gaveUpWin: 必勝の局面で相手を必勝にする手を選んだ、theoryMismatch: 定理による判定が読み切りと違った
+export type PieceTakingVerificationFailure =
+  | {
+      type: "gaveUpWin"
+      takeRule: PieceTakingTakeRule
+      playRule: PieceTakingPlayRule
+      counts: number[]
+      move: AIMove | null
+    }
+  | {
+      type: "theoryMismatch"
+      takeRule: PieceTakingTakeRule
+      playRule: PieceTakingPlayRule
+      counts: number[]
+    }
+
+export interface PieceTakingVerificationResult {
+  checkedPositionCount: number
+  failures: PieceTakingVerificationFailure[]
+}
+
+// 1〜maxPileCount 山、各山 0〜maxPileSize 個のすべての並び
+function enumeratePileCounts(maxPileCount: number, maxPileSize: number) {
+  const results: number[][] = []
+  let current: number[][] = [[]]
+
+  for (let pileCount = 1; pileCount <= maxPileCount; pileCount += 1) {
+    current = current.flatMap((counts) => Array.from({ length: maxPileSize + 1 }, (_, size) => [...counts, size]))
+    results.push(...current)
+  }
+
+  return results
+}
+
+function aiKeepsWin(takeRule: PieceTakingTakeRule, playRule: PieceTakingPlayRule, counts: number[]) {
+  const state = createInitialPieceTakingState(
+    {
+      piles: counts.map((count, index) => ({ color: PIECE_COLOR_ORDER[index], count })),
+      playRule,
+      takeRule,
+      firstTurn: "ai",
+    },
+    "ai",
+  )
+  const nextState = applyAIMove(state, () => 0)
+
+  if (nextState.gameOver) {
+    return { kept: nextState.winner === "ai", move: nextState.lastAIMove }
+  }
+
+  return {
+    kept: solvePosition(takeRule, playRule, nextState.piles.map((pile) => pile.count)) === false,
+    move: nextState.lastAIMove,
+  }
+}
+
+// 読み切れる範囲のすべての局面で、AI が必勝の局面を手放さないことと、定理による判定が読み切りと一致することを確かめる
+export function verifyPieceTakingAI({
+  maxPileCount,
+  maxPileSize,
+  takeRules,
+  playRules,
+}: PieceTakingVerificationOptions): PieceTakingVerificationResult {
+  const failures: PieceTakingVerificationFailure[] = []
+  let checkedPositionCount = 0
+
+  for (const takeRule of takeRules) {
+    for (const playRule of playRules) {
+      for (const counts of enumeratePileCounts(Math.min(maxPileCount, PIECE_COLOR_ORDER.length), maxPileSize)) {
+        const winning = solvePosition(takeRule, playRule, counts)
+
+        if (winning === null) {
+          continue
+        }
+
+        checkedPositionCount += 1
+        const theoreticalWinning = getTheoreticalWinning(takeRule, playRule, counts)
+
+        if (theoreticalWinning !== null && theoreticalWinning !== winning) {
+          failures.push({ type: "theoryMismatch", takeRule, playRule, counts })
+        }
+
+        // 取れる手がない局面では AI は指さない
+        if (!winning || counts.every((count) => getAllowedTakeCounts(takeRule, count).length === 0)) {
+          continue
+        }
+
+        const { kept, move } = aiKeepsWin(takeRule, playRule, counts)
+
+        if (!kept) {
+          failures.push({ type: "gaveUpWin", takeRule, playRule, counts, move })
+        }
+      }
+    }
+  }
+
+  return { checkedPositionCount, failures }
+}
@@ -0,0 +1,34 @@
+import { Button, Paper, Typography } from "@mui/material"
+import { Link, useParams } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
+import GamePageLayout from "../../components/GamePageLayout"
+import StrangeOthelloPage from "."
+import { useCustomPositions } from "./useCustomPositions"
+
+export default function CustomStrangeOthelloPage() {
+  const { positionId } = useParams()
+  const { positions } = useCustomPositions()
+  const position = positions.find((candidate) => candidate.id === positionId)
+
+  if (!position) {
+    return (
+      <GamePageLayout
+        title="ストレンジオセロ"
+        maxWidth="sm"
+        rules={
+          <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
+            ・指定された盤面が見つかりませんでした
+          </Typography>
+        }
+      >
+        <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", textAlign: "center" }}>
+          <Button component={Link} to="/strange-othello/editor" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+            盤面エディタへ
+          </Button>
+        </Paper>
+      </GamePageLayout>
+    )
+  }
+
+  return <StrangeOthelloPage key={position.id} customPosition={position} />
+}
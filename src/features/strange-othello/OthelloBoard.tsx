@@ -1,46 +1,62 @@
 import { Box, Paper, Typography } from "@mui/material"
 import { isPlayableMove } from "./logic"
-import type { StrangeOthelloGameState } from "./types"
+import type { Board, Position } from "./types"
 
 interface OthelloBoardProps {
-  gameState: StrangeOthelloGameState
-  showEvaluation: boolean
-  moveEvals: Map<string, number>
+  board: Board
+  playableMoves: Position[]
+  showEvaluation?: boolean
+  moveEvals?: Map<string, number>
+  editable?: boolean
+  highlightedMove?: Position | null
   onCellClick: (row: number, col: number) => void
 }
 
-export default function OthelloBoard({ gameState, showEvaluation, moveEvals, onCellClick }: OthelloBoardProps) {
+export default function OthelloBoard({
+  board,
+  playableMoves,
+  showEvaluation = false,
+  moveEvals,
+  editable = false,
+  highlightedMove = null,
+  onCellClick,
+}: OthelloBoardProps) {
+  const cols = board[0].length
+  const cellSize = `${100 / cols}%`
+
   return (
     <Paper
       sx={{
         p: { xs: 1.5, sm: 2.5 },
         border: "1px solid",
         borderColor: "divider",
-        width: { xs: "100%", sm: "320px" },
+        width: { xs: "100%", sm: `${Math.max(cols, 6) * 54}px` },
         mx: "auto",
       }}
     >
       <Box sx={{ display: "flex", flexDirection: "column" }}>
-        {gameState.board.map((row, rowIndex) => (
+        {board.map((row, rowIndex) => (
           <Box key={`row-${rowIndex}`} sx={{ display: "flex", flexDirection: "row" }}>
             {row.map((cell, colIndex) => {
-              const isValidMove =
-                gameState.currentTurn === "black" && isPlayableMove(gameState.validMoves, rowIndex, colIndex)
-              const moveEval = showEvaluation ? moveEvals.get(`${rowIndex},${colIndex}`) : undefined
+              const isValidMove = isPlayableMove(playableMoves, rowIndex, colIndex)
+              const isClickable = editable || isValidMove
+              const moveEval = showEvaluation ? moveEvals?.get(`${rowIndex},${colIndex}`) : undefined
+              const isHighlighted = highlightedMove?.row === rowIndex && highlightedMove.col === colIndex
 
               return (
                 <Box
                   key={`cell-${rowIndex}-${colIndex}`}
                   onClick={() => onCellClick(rowIndex, colIndex)}
                   sx={{
-                    width: "16.666%",
-                    paddingTop: "16.666%",
+                    width: cellSize,
+                    paddingTop: cellSize,
                     position: "relative",
                     backgroundColor: "#2d6a4f",
                     border: "1px solid #40916c",
-                    cursor: isValidMove ? "pointer" : "default",
+                    boxShadow: isHighlighted ? "inset 0 0 0 2px #fbbf24" : "none",
+                    cursor: isClickable ? "pointer" : "default",
                     "&:hover": {
-                      backgroundColor: isValidMove ? "#1b4332" : "#2d6a4f",
+                      backgroundColor: isClickable ? "#1b4332" : "#2d6a4f",
                     },
                     ...(isValidMove && !showEvaluation
                       ? {
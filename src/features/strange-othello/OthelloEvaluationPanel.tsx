@@ -1,7 +1,7 @@
 import { Box, Paper, Typography } from "@mui/material"
 import { evalToBarPercent } from "./logic"
 
-export default function OthelloEvaluationPanel({ currentEval }: { currentEval: number }) {
+export default function OthelloEvaluationPanel({ currentEval, cellCount }: { currentEval: number; cellCount: number }) {
   return (
     <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider" }}>
       <Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", mb: 1 }}>
@@ -31,7 +31,7 @@ export default function OthelloEvaluationPanel({ currentEval }: { currentEval: n
       >
         <Box
           sx={{
-            width: `${evalToBarPercent(currentEval)}%`,
+            width: `${evalToBarPercent(currentEval, cellCount)}%`,
             height: "100%",
             backgroundColor: "#1a1a2e",
             transition: "width 0.3s ease",
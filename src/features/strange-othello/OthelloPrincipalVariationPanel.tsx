@@ -0,0 +1,52 @@
+import { Box, Button, Chip, Paper, Typography } from "@mui/material"
+import { COLOR_LABELS } from "./constants"
+import { formatMoveNotation } from "./logic"
+import type { OthelloRecordMove } from "./types"
+
+interface OthelloPrincipalVariationPanelProps {
+  principalVariation: OthelloRecordMove[]
+  previewIndex: number | null
+  onPreviewChange: (index: number | null) => void
+}
+
+export default function OthelloPrincipalVariationPanel({
+  principalVariation,
+  previewIndex,
+  onPreviewChange,
+}: OthelloPrincipalVariationPanelProps) {
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider" }}>
+      <Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", mb: 1 }}>
+        <Typography variant="body2" sx={{ color: "text.secondary", fontWeight: 500 }}>
+          読み筋（手をクリックすると盤面に表示）
+        </Typography>
+        <Button size="small" onClick={() => onPreviewChange(null)} disabled={previewIndex === null}>
+          現在の局面
+        </Button>
+      </Box>
+      {principalVariation.length === 0 ? (
+        <Typography variant="body2" sx={{ color: "text.secondary" }}>
+          読み筋はありません
+        </Typography>
+      ) : (
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 0.75 }}>
+          {principalVariation.map((move, index) => {
+            // プレビューのフレーム 0 は現在の局面なので、index 手目を指した後はフレーム index + 1
+            const frameIndex = index + 1
+
+            return (
+              <Chip
+                key={frameIndex}
+                size="small"
+                label={`${frameIndex}. ${COLOR_LABELS[move.color]} ${move.position ? formatMoveNotation(move.position) : "パス"}`}
+                color={move.position ? "default" : "warning"}
+                variant={previewIndex === frameIndex ? "filled" : "outlined"}
+                onClick={() => onPreviewChange(frameIndex)}
+              />
+            )
+          })}
+        </Box>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react"
+import { FirstPage, LastPage, NavigateBefore, NavigateNext } from "@mui/icons-material"
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  Slider,
+  TextField,
+  Typography,
+} from "@mui/material"
+import OthelloBoard from "./OthelloBoard"
+import { COLOR_LABELS } from "./constants"
+import { buildReplayFrames, countPieces, formatMoveNotation, parseGameRecord } from "./logic"
+import type { Board, OthelloColor, OthelloRecordMove } from "./types"
+
+interface OthelloRecordDialogProps {
+  open: boolean
+  initialBoard: Board
+  initialTurn: OthelloColor
+  gameRecord: string
+  onClose: () => void
+}
+
+function OthelloRecordDialogContent({
+  initialBoard,
+  initialTurn,
+  gameRecord,
+  onClose,
+}: Omit<OthelloRecordDialogProps, "open">) {
+  const [recordText, setRecordText] = useState(gameRecord)
+  const [moves, setMoves] = useState<OthelloRecordMove[]>(() => {
+    const result = parseGameRecord(gameRecord, initialBoard, initialTurn)
+    return result.type === "parsed" ? result.moves : []
+  })
+  const [frameIndex, setFrameIndex] = useState(moves.length)
+  const [errorMessage, setErrorMessage] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const frames = useMemo(() => buildReplayFrames(initialBoard, initialTurn, moves), [initialBoard, initialTurn, moves])
+  const frame = frames[frameIndex]
+  const lastFrameIndex = frames.length - 1
+
+  const handleImport = () => {
+    const result = parseGameRecord(recordText, initialBoard, initialTurn)
+
+    if (result.type === "invalid") {
+      setErrorMessage(result.message)
+      return
+    }
+
+    setErrorMessage(null)
+    setMoves(result.moves)
+    setFrameIndex(0)
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard
+      .writeText(recordText)
+      .then(() => setCopied(true))
+      .catch((error: unknown) => console.error("Failed to copy game record", error))
+  }
+
+  return (
+    <>
+      <DialogTitle>棋譜と再生</DialogTitle>
+      <DialogContent sx={{ display: "flex", flexDirection: "column", gap: 2 }}>
+        <Typography variant="body2" sx={{ color: "text.secondary" }}>
+          列を a〜{String.fromCharCode(96 + initialBoard[0].length)}、行を 1〜{initialBoard.length} で表し（例: c4）、打てないときは
+          pass と書きます
+        </Typography>
+        <TextField
+          multiline
+          minRows={2}
+          size="small"
+          label="棋譜"
+          value={recordText}
+          onChange={(event) => {
+            setRecordText(event.target.value)
+            setCopied(false)
+          }}
+        />
+        {errorMessage && <Alert severity="error">{errorMessage}</Alert>}
+        <Box sx={{ display: "flex", gap: 1, justifyContent: "flex-end" }}>
+          <Button size="small" onClick={handleCopy}>
+            {copied ? "コピーしました" : "コピー"}
+          </Button>
+          <Button size="small" variant="contained" onClick={handleImport}>
+            読み込んで再生
+          </Button>
+        </Box>
+
+        <OthelloBoard board={frame.board} playableMoves={[]} highlightedMove={frame.move?.position} onCellClick={() => {}} />
+
+        <Typography variant="body2" sx={{ color: "text.primary", textAlign: "center" }}>
+          {frame.move
+            ? `${frameIndex}手目: ${COLOR_LABELS[frame.move.color]} ${formatMoveNotation(frame.move.position)}`
+            : "開始局面"}
+          {"　"}黒 {countPieces(frame.board, "black")} ・ 白 {countPieces(frame.board, "white")}
+        </Typography>
+        <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+          <IconButton size="small" onClick={() => setFrameIndex(0)} disabled={frameIndex === 0}>
+            <FirstPage />
+          </IconButton>
+          <IconButton size="small" onClick={() => setFrameIndex(frameIndex - 1)} disabled={frameIndex === 0}>
+            <NavigateBefore />
+          </IconButton>
+          <Slider
+            size="small"
+            min={0}
+            max={lastFrameIndex}
+            value={frameIndex}
+            disabled={lastFrameIndex === 0}
+            onChange={(_, value) => setFrameIndex(value as number)}
+            sx={{ mx: 1 }}
+          />
+          <IconButton size="small" onClick={() => setFrameIndex(frameIndex + 1)} disabled={frameIndex === lastFrameIndex}>
+            <NavigateNext />
+          </IconButton>
+          <IconButton size="small" onClick={() => setFrameIndex(lastFrameIndex)} disabled={frameIndex === lastFrameIndex}>
+            <LastPage />
+          </IconButton>
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>閉じる</Button>
+      </DialogActions>
+    </>
+  )
+}
+
+export default function OthelloRecordDialog({ open, onClose, ...contentProps }: OthelloRecordDialogProps) {
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="xs">
+      {/* 開くたびに中身を作り直し、現在の対局の棋譜から始める */}
+      {open && <OthelloRecordDialogContent {...contentProps} onClose={onClose} />}
+    </Dialog>
+  )
+}
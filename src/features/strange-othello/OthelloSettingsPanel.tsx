@@ -0,0 +1,93 @@
+import { Box, Paper, ToggleButton, ToggleButtonGroup, Typography } from "@mui/material"
+import { AI_LEVELS, AI_STRATEGIES } from "./aiStrategies"
+import { BOARD_VARIANTS } from "./constants"
+import type { OthelloAILevel, OthelloBoardVariantId, OthelloColor } from "./types"
+
+interface OthelloSettingsPanelProps {
+  playerColor: OthelloColor
+  aiLevel: OthelloAILevel
+  // カスタム盤面では盤面の大きさを選ばない
+  boardVariant?: OthelloBoardVariantId
+  onPlayerColorChange: (playerColor: OthelloColor) => void
+  onAILevelChange: (aiLevel: OthelloAILevel) => void
+  onBoardVariantChange?: (boardVariant: OthelloBoardVariantId) => void
+}
+
+const SETTING_ROW_SX = {
+  display: "flex",
+  justifyContent: "space-between",
+  alignItems: "center",
+  flexDirection: { xs: "column", sm: "row" },
+  gap: 1,
+}
+
+export default function OthelloSettingsPanel({
+  playerColor,
+  aiLevel,
+  boardVariant,
+  onPlayerColorChange,
+  onAILevelChange,
+  onBoardVariantChange,
+}: OthelloSettingsPanelProps) {
+  return (
+    <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 1.5 }}>
+      {boardVariant && onBoardVariantChange && (
+        <Box sx={SETTING_ROW_SX}>
+          <Typography variant="body2" sx={{ color: "text.secondary" }}>
+            盤面の大きさ
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={boardVariant}
+            onChange={(_, value: OthelloBoardVariantId | null) => value && onBoardVariantChange(value)}
+          >
+            {(Object.keys(BOARD_VARIANTS) as OthelloBoardVariantId[]).map((variantId) => (
+              <ToggleButton key={variantId} value={variantId} sx={{ px: 1.5 }}>
+                {BOARD_VARIANTS[variantId].label}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Box>
+      )}
+      <Box sx={SETTING_ROW_SX}>
+        <Typography variant="body2" sx={{ color: "text.secondary" }}>
+          あなたの石（変更すると最初からになります）
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={playerColor}
+          onChange={(_, value: OthelloColor | null) => value && value !== playerColor && onPlayerColorChange(value)}
+        >
+          <ToggleButton value="black" sx={{ px: 2 }}>
+            黒
+          </ToggleButton>
+          <ToggleButton value="white" sx={{ px: 2 }}>
+            白
+          </ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+      <Box sx={SETTING_ROW_SX}>
+        <Typography variant="body2" sx={{ color: "text.secondary" }}>
+          AIの強さ
+        </Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={aiLevel}
+          onChange={(_, value: OthelloAILevel | null) => value && onAILevelChange(value)}
+        >
+          {AI_LEVELS.map((level) => (
+            <ToggleButton key={level} value={level} sx={{ px: 1.5 }}>
+              {AI_STRATEGIES[level].label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+      <Typography variant="caption" sx={{ color: "text.secondary", textAlign: { xs: "center", sm: "right" } }}>
+        {AI_STRATEGIES[aiLevel].description}
+      </Typography>
+    </Paper>
+  )
+}
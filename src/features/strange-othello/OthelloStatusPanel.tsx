@@ -1,9 +1,59 @@
-import { Box, Paper, Typography } from "@mui/material"
-import type { StrangeOthelloGameState } from "./types"
+import { Alert, Box, Button, Paper, Typography } from "@mui/material"
+import { COLOR_LABELS } from "./constants"
+import { mustPass } from "./logic"
+import type { OthelloColor, StrangeOthelloGameState, StrangeOthelloTablesStatus } from "./types"
+
+interface OthelloStatusPanelProps {
+  gameState: StrangeOthelloGameState
+  playerColor: OthelloColor
+  tablesStatus: StrangeOthelloTablesStatus
+  onPass: () => void
+}
+
+function getPassNotice(gameState: StrangeOthelloGameState, playerColor: OthelloColor) {
+  if (gameState.lastMove?.position !== null || gameState.gameOver) {
+    return null
+  }
+
+  const passedColor = gameState.lastMove.color
+  return passedColor === playerColor
+    ? `あなた（${COLOR_LABELS[passedColor]}）はパスしました`
+    : `AI（${COLOR_LABELS[passedColor]}）は打てるマスがないのでパスしました`
+}
+
+function getTurnLabel(
+  gameState: StrangeOthelloGameState,
+  playerColor: OthelloColor,
+  tablesStatus: StrangeOthelloTablesStatus,
+) {
+  if (gameState.currentTurn === playerColor) {
+    return mustPass(gameState)
+      ? `あなた（${COLOR_LABELS[playerColor]}）は打てるマスがありません`
+      : `あなたの番（${COLOR_LABELS[playerColor]}）`
+  }
+
+  if (tablesStatus === "solving") {
+    return "AIが盤面を解析しています..."
+  }
+
+  if (tablesStatus === "failed") {
+    return "AIの準備に失敗しました"
+  }
+
+  return `AIの番（${COLOR_LABELS[gameState.currentTurn]}）...`
+}
+
+export default function OthelloStatusPanel({ gameState, playerColor, tablesStatus, onPass }: OthelloStatusPanelProps) {
+  const passNotice = getPassNotice(gameState, playerColor)
+  const canPass = gameState.currentTurn === playerColor && mustPass(gameState)
 
-export default function OthelloStatusPanel({ gameState }: { gameState: StrangeOthelloGameState }) {
   return (
     <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider" }}>
+      {passNotice && (
+        <Alert severity="info" sx={{ mb: 1.5 }}>
+          {passNotice}
+        </Alert>
+      )}
       <Box
         sx={{
           display: "flex",
@@ -14,8 +64,13 @@ export default function OthelloStatusPanel({ gameState }: { gameState: StrangeOt
         }}
       >
         <Typography variant="body2" sx={{ color: "text.primary", fontWeight: 500 }}>
-          {gameState.currentTurn === "black" ? "あなたの番（黒）" : "AIの番（白）..."}
+          {getTurnLabel(gameState, playerColor, tablesStatus)}
         </Typography>
+        {canPass && (
+          <Button size="small" variant="contained" onClick={onPass}>
+            パスする
+          </Button>
+        )}
         <Box sx={{ display: "flex", gap: 3, alignItems: "center" }}>
           <Box sx={{ display: "flex", alignItems: "center", gap: 1 }}>
             <Box
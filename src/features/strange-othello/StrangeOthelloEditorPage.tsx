@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react"
+import {
+  Alert,
+  Box,
+  Button,
+  Paper,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from "@mui/material"
+import { Link, useNavigate } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
+import GamePageLayout from "../../components/GamePageLayout"
+import OthelloBoard from "./OthelloBoard"
+import { MAX_SOLVABLE_EMPTY_CELLS, INITIAL_BOARD } from "./constants"
+import { cloneBoard, countPieces, createEmptyBoard, validateCustomPosition } from "./logic"
+import { useCustomPositions } from "./useCustomPositions"
+import type { Board, CellState, OthelloColor } from "./types"
+
+const PAINT_LABELS: Record<CellState, string> = {
+  black: "黒",
+  white: "白",
+  empty: "空き",
+}
+
+export default function StrangeOthelloEditorPage() {
+  const navigate = useNavigate()
+  const { positions, savePosition, deletePosition } = useCustomPositions()
+  const [board, setBoard] = useState<Board>(() => cloneBoard(INITIAL_BOARD))
+  const [initialTurn, setInitialTurn] = useState<OthelloColor>("black")
+  const [paint, setPaint] = useState<CellState>("black")
+  const [name, setName] = useState("")
+  const [pendingPositionId, setPendingPositionId] = useState<string | null>(null)
+  const errors = validateCustomPosition(board, initialTurn)
+
+  // 保存した盤面が永続化されてから対戦画面へ移動する
+  useEffect(() => {
+    if (pendingPositionId && positions.some((position) => position.id === pendingPositionId)) {
+      navigate(`/strange-othello/custom/${pendingPositionId}`)
+    }
+  }, [navigate, pendingPositionId, positions])
+
+  const handleCellClick = (row: number, col: number) => {
+    setBoard((previousBoard) => {
+      const nextBoard = cloneBoard(previousBoard)
+      nextBoard[row][col] = previousBoard[row][col] === paint ? "empty" : paint
+      return nextBoard
+    })
+  }
+
+  const handleSave = () => {
+    if (errors.length > 0) {
+      return
+    }
+
+    const position = savePosition(name.trim() || `カスタム盤面 ${positions.length + 1}`, board, initialTurn)
+    setPendingPositionId(position.id)
+  }
+
+  return (
+    <GamePageLayout
+      title="ストレンジオセロ 盤面エディタ"
+      maxWidth="sm"
+      rules={
+        <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
+          ・マスをクリックして石を置きます（同じ色をもう一度クリックすると空きマスに戻ります）
+          <br />
+          ・対戦画面で黒と白のどちらを持つかとAIの強さを選べます。「最強」のAIは保存した盤面をその場で解析し、最善手で応じます
+          <br />
+          ・空きマスは{MAX_SOLVABLE_EMPTY_CELLS}個まで置けます
+        </Typography>
+      }
+    >
+      <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 2 }}>
+        <Box sx={{ display: "flex", flexWrap: "wrap", gap: 2, alignItems: "center", justifyContent: "center" }}>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={paint}
+            onChange={(_, value: CellState | null) => value && setPaint(value)}
+          >
+            {(["black", "white", "empty"] as const).map((cell) => (
+              <ToggleButton key={cell} value={cell} sx={{ px: 2 }}>
+                {PAINT_LABELS[cell]}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={initialTurn}
+            onChange={(_, value: OthelloColor | null) => value && setInitialTurn(value)}
+          >
+            <ToggleButton value="black" sx={{ px: 2 }}>
+              黒から
+            </ToggleButton>
+            <ToggleButton value="white" sx={{ px: 2 }}>
+              白から
+            </ToggleButton>
+          </ToggleButtonGroup>
+        </Box>
+        <Typography variant="body2" sx={{ color: "text.secondary", textAlign: "center" }}>
+          黒 {countPieces(board, "black")} ・ 白 {countPieces(board, "white")}
+        </Typography>
+      </Paper>
+
+      <OthelloBoard board={board} playableMoves={[]} editable onCellClick={handleCellClick} />
+
+      <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider", display: "flex", flexDirection: "column", gap: 2 }}>
+        {errors.length > 0 ? (
+          <Alert severity="warning">
+            {errors.map((error) => (
+              <Box key={error}>{error}</Box>
+            ))}
+          </Alert>
+        ) : (
+          <Alert severity="success">この盤面で対戦できます</Alert>
+        )}
+        <TextField
+          size="small"
+          label="盤面の名前"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={`カスタム盤面 ${positions.length + 1}`}
+        />
+        <Box sx={{ display: "flex", flexDirection: { xs: "column", sm: "row" }, gap: 1.5, justifyContent: "center" }}>
+          <Button variant="outlined" size="small" onClick={() => setBoard(cloneBoard(INITIAL_BOARD))} sx={SECONDARY_BUTTON_SX}>
+            標準の盤面に戻す
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            onClick={() => setBoard(createEmptyBoard(INITIAL_BOARD.length, INITIAL_BOARD[0].length))}
+            sx={SECONDARY_BUTTON_SX}
+          >
+            すべて空にする
+          </Button>
+          <Button
+            variant="contained"
+            onClick={handleSave}
+            disabled={errors.length > 0}
+            sx={{
+              borderRadius: 10,
+              px: 3,
+              backgroundColor: "#059669",
+              color: "#fff",
+              fontWeight: 600,
+              "&:hover": { backgroundColor: "#047857" },
+              width: { xs: "100%", sm: "auto" },
+            }}
+          >
+            保存して対戦
+          </Button>
+        </Box>
+      </Paper>
+
+      {positions.length > 0 && (
+        <Paper sx={{ p: 2, border: "1px solid", borderColor: "divider" }}>
+          <Typography variant="body2" gutterBottom sx={{ color: "text.primary", fontWeight: 500 }}>
+            保存した盤面
+          </Typography>
+          <Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+            {positions.map((position) => (
+              <Box
+                key={position.id}
+                sx={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: 1,
+                  flexWrap: "wrap",
+                  p: 1,
+                  borderRadius: 2,
+                  backgroundColor: "#f9fafb",
+                }}
+              >
+                <Typography variant="body2" sx={{ flex: 1, minWidth: 120, color: "text.primary" }}>
+                  {position.name}
+                  <Typography component="span" variant="caption" sx={{ color: "text.secondary", ml: 1 }}>
+                    {position.initialTurn === "black" ? "黒から" : "白から"}
+                  </Typography>
+                </Typography>
+                <Button component={Link} to={`/strange-othello/custom/${position.id}`} size="small" variant="contained">
+                  対戦
+                </Button>
+                <Button
+                  size="small"
+                  onClick={() => {
+                    setBoard(cloneBoard(position.board))
+                    setInitialTurn(position.initialTurn)
+                    setName(position.name)
+                  }}
+                >
+                  読み込む
+                </Button>
+                <Button size="small" color="error" onClick={() => deletePosition(position.id)}>
+                  削除
+                </Button>
+              </Box>
+            ))}
+          </Box>
+        </Paper>
+      )}
+
+      <Box sx={{ display: "flex", justifyContent: "center", gap: 1.5, flexDirection: { xs: "column", sm: "row" } }}>
+        <Button component={Link} to="/strange-othello" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          ストレンジオセロへ
+        </Button>
+        <Button component={Link} to="/" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          タイトルへ
+        </Button>
+      </Box>
+    </GamePageLayout>
+  )
+}
@@ -0,0 +1,197 @@
+import {
+  applyMoveBits,
+  bitsToIndices,
+  boardToBitboards,
+  countBits,
+  getLegalMoveBits,
+  isEmptyBitSet,
+  type Bitboards,
+} from "./bitboard"
+import { getFlippedPieces, getMoveEvals, getOpponentColor, isPlayableMove } from "./logic"
+import { lookupPackedMove } from "./packedTable"
+import type {
+  EvalTable,
+  OthelloAILevel,
+  OthelloColor,
+  OthelloSolutionTable,
+  Position,
+  StrangeOthelloGameState,
+} from "./types"
+
+export interface OthelloAIContext {
+  solutionTable: OthelloSolutionTable | null
+  evalTable: EvalTable | null
+  random: () => number
+}
+
+// 手を選ぶ方法。打てるマスがなければ null（パス）を返す
+export interface OthelloAIStrategy {
+  label: string
+  description: string
+  // true の場合、解析テーブルの準備ができるまで手を選ばない
+  requiresTables: boolean
+  chooseMove: (state: StrangeOthelloGameState, context: OthelloAIContext) => Position | null
+}
+
+const SEARCH_DEPTH = 4
+// 完全解析できない盤面で「最強」が使う先読みの深さ。8×8 のような広い盤面は打てる手が多く
+// 1手ごとの計算が重くなるので、マスの数が LARGE_BOARD_CELL_COUNT を超えたら1手浅くする
+const FALLBACK_SEARCH_DEPTH = 5
+const LARGE_BOARD_CELL_COUNT = 36
+
+function getFallbackSearchDepth(state: StrangeOthelloGameState) {
+  const cellCount = state.board.length * state.board[0].length
+  return cellCount > LARGE_BOARD_CELL_COUNT ? FALLBACK_SEARCH_DEPTH - 1 : FALLBACK_SEARCH_DEPTH
+}
+
+function pickRandom<T>(items: T[], random: () => number): T | null {
+  return items.length === 0 ? null : items[Math.floor(random() * items.length)]
+}
+
+// 数手先までの駒数差（黒 - 白）で評価するミニマックス。終局した局面は確定した駒数差を返す。
+// alpha 以下・beta 以上になると分かった時点で、その先の手は読まずに打ち切る
+function searchPieceDifference(
+  bitboards: Bitboards,
+  turn: OthelloColor,
+  depth: number,
+  rows: number,
+  cols: number,
+  alpha = Number.NEGATIVE_INFINITY,
+  beta = Number.POSITIVE_INFINITY,
+): number {
+  const pieceDifference = countBits(bitboards.black) - countBits(bitboards.white)
+
+  if (depth === 0) {
+    return pieceDifference
+  }
+
+  const opponent = getOpponentColor(turn)
+  const moves = getLegalMoveBits(bitboards, turn, rows, cols)
+
+  if (isEmptyBitSet(moves)) {
+    return isEmptyBitSet(getLegalMoveBits(bitboards, opponent, rows, cols))
+      ? pieceDifference
+      : searchPieceDifference(bitboards, opponent, depth - 1, rows, cols, alpha, beta)
+  }
+
+  let best = turn === "black" ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY
+
+  for (const index of bitsToIndices(moves)) {
+    const nextBitboards = applyMoveBits(bitboards, index, turn, rows, cols)
+    const value = searchPieceDifference(nextBitboards, opponent, depth - 1, rows, cols, alpha, beta)
+
+    if (turn === "black") {
+      best = Math.max(best, value)
+      alpha = Math.max(alpha, value)
+    } else {
+      best = Math.min(best, value)
+      beta = Math.min(beta, value)
+    }
+
+    if (alpha >= beta) {
+      break
+    }
+  }
+
+  return best
+}
+
+function chooseSearchMove(state: StrangeOthelloGameState, depth: number, random: () => number) {
+  const rows = state.board.length
+  const cols = state.board[0].length
+  const bitboards = boardToBitboards(state.board)
+  const opponent = getOpponentColor(state.currentTurn)
+  const sign = state.currentTurn === "black" ? 1 : -1
+  let bestMoves: Position[] = []
+  let bestValue = Number.NEGATIVE_INFINITY
+
+  for (const move of state.validMoves) {
+    const nextBitboards = applyMoveBits(bitboards, move.row * cols + move.col, state.currentTurn, rows, cols)
+    const value = sign * searchPieceDifference(nextBitboards, opponent, depth - 1, rows, cols)
+
+    if (value > bestValue) {
+      bestMoves = [move]
+      bestValue = value
+    } else if (value === bestValue) {
+      bestMoves.push(move)
+    }
+  }
+
+  return pickRandom(bestMoves, random)
+}
+
+function chooseGreedyMove(state: StrangeOthelloGameState, random: () => number) {
+  let bestMoves: Position[] = []
+  let bestFlipCount = 0
+
+  for (const move of state.validMoves) {
+    const flipCount = getFlippedPieces(state.board, move.row, move.col, state.currentTurn).length
+
+    if (flipCount > bestFlipCount) {
+      bestMoves = [move]
+      bestFlipCount = flipCount
+    } else if (flipCount === bestFlipCount) {
+      bestMoves.push(move)
+    }
+  }
+
+  return pickRandom(bestMoves, random)
+}
+
+// 最善手テーブルに無い局面（旧形式のテーブルなど）では評価値テーブルから選び、
+// それも無ければ（完全解析できない大きな盤面など）先読みで選ぶ
+function choosePerfectMove(state: StrangeOthelloGameState, { solutionTable, evalTable, random }: OthelloAIContext) {
+  const tableMove = solutionTable ? lookupPackedMove(solutionTable.moveTable, state.board, state.currentTurn) : null
+
+  if (tableMove && isPlayableMove(state.validMoves, tableMove.row, tableMove.col)) {
+    return tableMove
+  }
+
+  const moveEvals = getMoveEvals(state, evalTable)
+  let bestMove: Position | null = null
+  let bestValue = 0
+
+  for (const move of state.validMoves) {
+    const value = moveEvals.get(`${move.row},${move.col}`)
+
+    if (value === undefined) {
+      continue
+    }
+
+    if (bestMove === null || (state.currentTurn === "black" ? value > bestValue : value < bestValue)) {
+      bestMove = move
+      bestValue = value
+    }
+  }
+
+  return bestMove ?? chooseSearchMove(state, getFallbackSearchDepth(state), random)
+}
+
+export const AI_LEVELS: OthelloAILevel[] = ["random", "greedy", "search", "perfect"]
+
+export const AI_STRATEGIES: Record<OthelloAILevel, OthelloAIStrategy> = {
+  random: {
+    label: "かんたん",
+    description: "打てるマスからでたらめに選びます",
+    requiresTables: false,
+    chooseMove: (state, { random }) => pickRandom(state.validMoves, random),
+  },
+  greedy: {
+    label: "ふつう",
+    description: "その場で一番多く石を返せるマスを選びます",
+    requiresTables: false,
+    chooseMove: (state, { random }) => chooseGreedyMove(state, random),
+  },
+  search: {
+    label: "つよい",
+    description: `${SEARCH_DEPTH}手先まで読んで石の数が最も多くなるマスを選びます`,
+    requiresTables: false,
+    chooseMove: (state, { random }) => chooseSearchMove(state, SEARCH_DEPTH, random),
+  },
+  perfect: {
+    label: "最強",
+    description: "盤面を最後まで解析した最善手を打ちます（解析できない大きな盤面では先読みで打ちます）",
+    requiresTables: true,
+    chooseMove: choosePerfectMove,
+  },
+}
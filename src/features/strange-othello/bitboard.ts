@@ -0,0 +1,241 @@
+import { DIRECTIONS } from "./constants"
+import type { Board, CellState, OthelloColor, Position } from "./types"
+
+// マス (row, col) を bit (row * cols + col) に対応させたビット集合。最大 64 マスまでを
+// 下位 32 マス（lo）と上位 32 マス（hi）の 2 つの 32bit 整数に分けて持つ
+export interface BitSet {
+  lo: number
+  hi: number
+}
+
+export interface Bitboards {
+  black: BitSet
+  white: BitSet
+}
+
+interface BoardShift {
+  amount: number
+  toHigher: boolean
+  maskLo: number
+  maskHi: number
+}
+
+interface BoardGeometry {
+  full: BitSet
+  shifts: BoardShift[]
+}
+
+const MAX_CELL_COUNT = 64
+// 斜め方向のシフト量は cols + 1。32 以上になると 32bit のシフトが回り込むので、列数はここまでにする
+const MAX_COLS = 30
+const geometryCache = new Map<string, BoardGeometry>()
+
+function shiftLo(shift: BoardShift, lo: number, hi: number) {
+  return (shift.toHigher ? lo << shift.amount : (lo >>> shift.amount) | (hi << (32 - shift.amount))) & shift.maskLo
+}
+
+function shiftHi(shift: BoardShift, lo: number, hi: number) {
+  return (shift.toHigher ? (hi << shift.amount) | (lo >>> (32 - shift.amount)) : hi >>> shift.amount) & shift.maskHi
+}
+
+function popCount32(value: number) {
+  let bits = value - ((value >>> 1) & 0x55555555)
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333)
+  return (((bits + (bits >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24
+}
+
+function createMask(rows: number, cols: number, includes: (col: number) => boolean): BitSet {
+  let lo = 0
+  let hi = 0
+
+  for (let row = 0; row < rows; row += 1) {
+    for (let col = 0; col < cols; col += 1) {
+      if (includes(col)) {
+        const bit = indexToBits(row * cols + col)
+        lo |= bit.lo
+        hi |= bit.hi
+      }
+    }
+  }
+
+  return { lo, hi }
+}
+
+function getGeometry(rows: number, cols: number): BoardGeometry {
+  const cacheKey = `${rows}x${cols}`
+  const cached = geometryCache.get(cacheKey)
+
+  if (cached) {
+    return cached
+  }
+
+  if (rows * cols > MAX_CELL_COUNT || rows < 2 || cols < 2 || cols > MAX_COLS) {
+    throw new Error(`Unsupported board size: ${rows}x${cols}`)
+  }
+
+  const full = createMask(rows, cols, () => true)
+  // 横方向に移動したときに反対側の列へ回り込んだビットを落とす
+  const notFirstColumn = createMask(rows, cols, (col) => col !== 0)
+  const notLastColumn = createMask(rows, cols, (col) => col !== cols - 1)
+
+  const shifts = DIRECTIONS.map((direction): BoardShift => {
+    const offset = direction.row * cols + direction.col
+    const mask = direction.col > 0 ? notFirstColumn : direction.col < 0 ? notLastColumn : full
+
+    return { amount: Math.abs(offset), toHigher: offset > 0, maskLo: mask.lo, maskHi: mask.hi }
+  })
+
+  const geometry = { full, shifts }
+  geometryCache.set(cacheKey, geometry)
+  return geometry
+}
+
+function getOwnAndOpponent(bitboards: Bitboards, color: OthelloColor) {
+  return color === "black"
+    ? { own: bitboards.black, opponent: bitboards.white }
+    : { own: bitboards.white, opponent: bitboards.black }
+}
+
+export function indexToBits(index: number): BitSet {
+  return index < 32 ? { lo: 1 << index, hi: 0 } : { lo: 0, hi: 1 << (index - 32) }
+}
+
+export function hasBit(bits: BitSet, index: number) {
+  return index < 32 ? (bits.lo >>> index) & 1 : (bits.hi >>> (index - 32)) & 1
+}
+
+export function isEmptyBitSet(bits: BitSet) {
+  return bits.lo === 0 && bits.hi === 0
+}
+
+export function countBits(bits: BitSet) {
+  return popCount32(bits.lo) + popCount32(bits.hi)
+}
+
+export function bitsToIndices(bits: BitSet) {
+  const indices: number[] = []
+
+  for (const [word, offset] of [
+    [bits.lo, 0],
+    [bits.hi, 32],
+  ]) {
+    for (let remaining = word; remaining !== 0; remaining &= remaining - 1) {
+      indices.push(offset + 31 - Math.clz32(remaining & -remaining))
+    }
+  }
+
+  return indices
+}
+
+export function bitsToPositions(bits: BitSet, cols: number): Position[] {
+  return bitsToIndices(bits).map((index) => ({ row: Math.floor(index / cols), col: index % cols }))
+}
+
+export function boardToBitboards(board: Board): Bitboards {
+  const black = { lo: 0, hi: 0 }
+  const white = { lo: 0, hi: 0 }
+
+  board.flat().forEach((cell, index) => {
+    if (cell === "empty") {
+      return
+    }
+
+    const target = cell === "black" ? black : white
+    const bit = indexToBits(index)
+    target.lo |= bit.lo
+    target.hi |= bit.hi
+  })
+
+  return { black, white }
+}
+
+export function bitboardsToBoard(bitboards: Bitboards, rows: number, cols: number): Board {
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col): CellState => {
+      const index = row * cols + col
+
+      if (hasBit(bitboards.black, index)) {
+        return "black"
+      }
+
+      return hasBit(bitboards.white, index) ? "white" : "empty"
+    }),
+  )
+}
+
+export function getLegalMoveBits(bitboards: Bitboards, color: OthelloColor, rows: number, cols: number): BitSet {
+  const { full, shifts } = getGeometry(rows, cols)
+  const { own, opponent } = getOwnAndOpponent(bitboards, color)
+  const emptyLo = full.lo & ~(own.lo | opponent.lo)
+  const emptyHi = full.hi & ~(own.hi | opponent.hi)
+  let movesLo = 0
+  let movesHi = 0
+
+  for (const shift of shifts) {
+    let candidatesLo = shiftLo(shift, own.lo, own.hi) & opponent.lo
+    let candidatesHi = shiftHi(shift, own.lo, own.hi) & opponent.hi
+
+    while (candidatesLo !== 0 || candidatesHi !== 0) {
+      const nextLo = shiftLo(shift, candidatesLo, candidatesHi)
+      const nextHi = shiftHi(shift, candidatesLo, candidatesHi)
+      movesLo |= nextLo & emptyLo
+      movesHi |= nextHi & emptyHi
+      candidatesLo = nextLo & opponent.lo
+      candidatesHi = nextHi & opponent.hi
+    }
+  }
+
+  return { lo: movesLo, hi: movesHi }
+}
+
+export function getFlipBits(
+  bitboards: Bitboards,
+  moveIndex: number,
+  color: OthelloColor,
+  rows: number,
+  cols: number,
+): BitSet {
+  const { shifts } = getGeometry(rows, cols)
+  const { own, opponent } = getOwnAndOpponent(bitboards, color)
+  const move = indexToBits(moveIndex)
+  let flipsLo = 0
+  let flipsHi = 0
+
+  for (const shift of shifts) {
+    let lineLo = 0
+    let lineHi = 0
+    let cursorLo = shiftLo(shift, move.lo, move.hi)
+    let cursorHi = shiftHi(shift, move.lo, move.hi)
+
+    while ((cursorLo & opponent.lo) !== 0 || (cursorHi & opponent.hi) !== 0) {
+      lineLo |= cursorLo
+      lineHi |= cursorHi
+      const nextLo = shiftLo(shift, cursorLo, cursorHi)
+      cursorHi = shiftHi(shift, cursorLo, cursorHi)
+      cursorLo = nextLo
+    }
+
+    if ((cursorLo & own.lo) !== 0 || (cursorHi & own.hi) !== 0) {
+      flipsLo |= lineLo
+      flipsHi |= lineHi
+    }
+  }
+
+  return { lo: flipsLo, hi: flipsHi }
+}
+
+export function applyMoveBits(
+  bitboards: Bitboards,
+  moveIndex: number,
+  color: OthelloColor,
+  rows: number,
+  cols: number,
+): Bitboards {
+  const flips = getFlipBits(bitboards, moveIndex, color, rows, cols)
+  const move = indexToBits(moveIndex)
+  const { own, opponent } = getOwnAndOpponent(bitboards, color)
+  const nextOwn = { lo: own.lo | move.lo | flips.lo, hi: own.hi | move.hi | flips.hi }
+  const nextOpponent = { lo: opponent.lo & ~flips.lo, hi: opponent.hi & ~flips.hi }
+
+  return color === "black" ? { black: nextOwn, white: nextOpponent } : { black: nextOpponent, white: nextOwn }
+}
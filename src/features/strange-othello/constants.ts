@@ -1,8 +1,34 @@
-import type { Board, Position } from "./types"
+import type { Board, OthelloBoardVariantId, OthelloColor, Position } from "./types"
 
 export const STRANGE_OTHELLO_STORAGE_KEY = "logic-game-challenge/strange-othello"
-export const STRANGE_OTHELLO_STORAGE_VERSION = 1
-export const STRANGE_OTHELLO_TABLES_VERSION = 2
+export const STRANGE_OTHELLO_STORAGE_VERSION = 6
+export const STRANGE_OTHELLO_TABLES_VERSION = 4
+export const CUSTOM_POSITIONS_STORAGE_KEY = "logic-game-challenge/strange-othello/custom-positions"
+export const CUSTOM_POSITIONS_STORAGE_VERSION = 1
+export const STRANGE_OTHELLO_VARIANT_STORAGE_KEY = "logic-game-challenge/strange-othello/variant"
+// 空きマスが 12 を超えると、ブラウザ内の完全解析が数十秒・数 GB 規模になる。
+// それより大きい盤面では解析テーブルを作らず、AI は数手先までの先読みで打つ
+export const MAX_SOLVABLE_EMPTY_CELLS = 12
+
+export function getCustomGameStorageKey(positionId: string) {
+  return `${STRANGE_OTHELLO_STORAGE_KEY}/custom/${positionId}`
+}
+
+// 既定の 6x6 は以前からの保存キーをそのまま使う
+export function getVariantGameStorageKey(variantId: OthelloBoardVariantId) {
+  return variantId === DEFAULT_BOARD_VARIANT ? STRANGE_OTHELLO_STORAGE_KEY : `${STRANGE_OTHELLO_STORAGE_KEY}/${variantId}`
+}
+
+// 配布済みテーブルのパス。6x6 以外は盤面の大きさを名前に付ける（scripts/generate_eval_table.py と共通）
+export function getPrebuiltTablePath(name: "table" | "eval", extension: "bin" | "json", rows: number, cols: number) {
+  const sizeSuffix = rows === 6 && cols === 6 ? "" : `-${rows}x${cols}`
+  return `/strange-othello-${name}${sizeSuffix}.${extension}`
+}
+
+export const COLOR_LABELS: Record<OthelloColor, string> = {
+  black: "黒",
+  white: "白",
+}
 
 export const DIRECTIONS: Position[] = [
   { row: -1, col: 0 },
@@ -23,3 +49,25 @@ export const INITIAL_BOARD: Board = [
   ["black", "empty", "empty", "empty", "empty", "white"],
   ["white", "white", "white", "white", "white", "white"],
 ]
+
+function createStandardBoard(size: number): Board {
+  const center = size / 2
+
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => {
+      if ((row === center - 1 || row === center) && (col === center - 1 || col === center)) {
+        return row === col ? "white" : "black"
+      }
+
+      return "empty"
+    }),
+  )
+}
+
+export const DEFAULT_BOARD_VARIANT: OthelloBoardVariantId = "6x6"
+
+export const BOARD_VARIANTS: Record<OthelloBoardVariantId, { label: string; board: Board }> = {
+  "4x4": { label: "4×4", board: createStandardBoard(4) },
+  "6x6": { label: "6×6", board: INITIAL_BOARD },
+  "8x8": { label: "8×8", board: createStandardBoard(8) },
+}
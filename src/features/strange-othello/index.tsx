@@ -1,55 +1,149 @@
+import { useState } from "react"
 import { Box, Button, Typography } from "@mui/material"
 import { Link } from "react-router-dom"
+import { SECONDARY_BUTTON_SX } from "../../components/buttonStyles"
 import GamePageLayout from "../../components/GamePageLayout"
+import RandomSeedPanel from "../../components/RandomSeedPanel"
 import ResultOverlay from "../../components/ResultOverlay"
 import OthelloBoard from "./OthelloBoard"
 import OthelloEvaluationPanel from "./OthelloEvaluationPanel"
+import OthelloPrincipalVariationPanel from "./OthelloPrincipalVariationPanel"
+import OthelloRecordDialog from "./OthelloRecordDialog"
+import OthelloSettingsPanel from "./OthelloSettingsPanel"
 import OthelloStatusPanel from "./OthelloStatusPanel"
+import { usePersistentState } from "../../hooks/usePersistentState"
+import {
+  BOARD_VARIANTS,
+  DEFAULT_BOARD_VARIANT,
+  getCustomGameStorageKey,
+  getVariantGameStorageKey,
+  STRANGE_OTHELLO_VARIANT_STORAGE_KEY,
+} from "./constants"
 import { useStrangeOthelloGame } from "./useStrangeOthelloGame"
+import type { CustomOthelloPosition, OthelloBoardVariantId, OthelloColor } from "./types"
 
-function getOthelloResultLabel(winner: "black" | "white" | "draw" | null) {
-  if (winner === "black") return "プレイヤーの勝ちです！"
-  if (winner === "white") return "AIの勝ちです"
-  return "引き分けです"
+function getOthelloResultLabel(winner: "black" | "white" | "draw" | null, playerColor: OthelloColor) {
+  if (winner === "draw" || winner === null) return "引き分けです"
+  return winner === playerColor ? "プレイヤーの勝ちです！" : "AIの勝ちです"
 }
 
-export default function StrangeOthelloPage() {
+interface StrangeOthelloGameViewProps {
+  customPosition?: CustomOthelloPosition
+  variantId?: OthelloBoardVariantId
+  onVariantChange?: (variantId: OthelloBoardVariantId) => void
+}
+
+function StrangeOthelloGameView({
+  customPosition,
+  variantId = DEFAULT_BOARD_VARIANT,
+  onVariantChange,
+}: StrangeOthelloGameViewProps) {
+  const initialBoard = customPosition?.board ?? BOARD_VARIANTS[variantId].board
+  const initialTurn = customPosition?.initialTurn ?? "black"
   const {
     gameState,
+    tablesStatus,
     showEvaluation,
+    playerColor,
+    aiLevel,
     currentEval,
     moveEvals,
+    gameRecord,
+    initialRandomSeed,
+    principalVariation,
+    previewIndex,
+    previewFrame,
     canUndo,
     handleTitleClick,
-    handleBlackMove,
+    handlePlayerMove,
+    handlePass,
+    handlePlayerColorChange,
+    handleAILevelChange,
+    handlePreviewChange,
     handleUndo,
     handleRestart,
-  } = useStrangeOthelloGame()
+    handleStartWithSeed,
+  } = useStrangeOthelloGame({
+    storageKey: customPosition ? getCustomGameStorageKey(customPosition.id) : getVariantGameStorageKey(variantId),
+    initialBoard,
+    initialTurn,
+  })
 
-  const resultLabel = getOthelloResultLabel(gameState.winner)
+  const [recordDialogOpen, setRecordDialogOpen] = useState(false)
+  const resultLabel = getOthelloResultLabel(gameState.winner, playerColor)
 
   return (
     <GamePageLayout
-      title="ストレンジオセロ"
+      title={
+        customPosition
+          ? `ストレンジオセロ（${customPosition.name}）`
+          : variantId === DEFAULT_BOARD_VARIANT
+            ? "ストレンジオセロ"
+            : `ストレンジオセロ（${BOARD_VARIANTS[variantId].label}）`
+      }
       maxWidth="sm"
       onTitleClick={handleTitleClick}
       rules={
         <Typography variant="body2" sx={{ color: "text.secondary", lineHeight: 1.7 }}>
-          ・通常とは異なる初期盤面でのオセロです
+          {customPosition ? "・盤面エディタで作成した初期盤面でのオセロです" : "・通常とは異なる初期盤面でのオセロです"}
+          <br />
+          {!customPosition && (
+            <>
+              ・盤面の大きさを選べます（6×6 以外は通常の初期配置）。盤面ごとに対局が保存されます
+              <br />
+            </>
+          )}
+          ・黒と白のどちらを持つか、AIの強さを選べます。「最強」のAIは残りの色を最善手で打ちます
         </Typography>
       }
     >
-      <OthelloStatusPanel gameState={gameState} />
-
-      {showEvaluation && currentEval !== null && <OthelloEvaluationPanel currentEval={currentEval} />}
-
-      <OthelloBoard
+      <OthelloStatusPanel
         gameState={gameState}
-        showEvaluation={showEvaluation}
-        moveEvals={moveEvals}
-        onCellClick={handleBlackMove}
+        playerColor={playerColor}
+        tablesStatus={tablesStatus}
+        onPass={handlePass}
       />
 
+      <OthelloSettingsPanel
+        playerColor={playerColor}
+        aiLevel={aiLevel}
+        boardVariant={customPosition ? undefined : variantId}
+        onBoardVariantChange={onVariantChange}
+        onPlayerColorChange={handlePlayerColorChange}
+        onAILevelChange={handleAILevelChange}
+      />
+
+      {showEvaluation && currentEval !== null && (
+        <OthelloEvaluationPanel currentEval={currentEval} cellCount={initialBoard.length * initialBoard[0].length} />
+      )}
+
+      {showEvaluation && currentEval !== null && (
+        <OthelloPrincipalVariationPanel
+          principalVariation={principalVariation}
+          previewIndex={previewIndex}
+          onPreviewChange={handlePreviewChange}
+        />
+      )}
+
+      {previewFrame ? (
+        <OthelloBoard
+          board={previewFrame.board}
+          playableMoves={[]}
+          highlightedMove={previewFrame.move?.position}
+          onCellClick={() => handlePreviewChange(null)}
+        />
+      ) : (
+        <OthelloBoard
+          board={gameState.board}
+          playableMoves={gameState.currentTurn === playerColor ? gameState.validMoves : []}
+          showEvaluation={showEvaluation}
+          moveEvals={moveEvals}
+          onCellClick={handlePlayerMove}
+        />
+      )}
+
+      <RandomSeedPanel seed={initialRandomSeed} onStart={handleStartWithSeed} />
+
       <Box
         sx={{
           display: "flex",
@@ -64,46 +158,56 @@ export default function StrangeOthelloPage() {
           size="small"
           onClick={handleUndo}
           disabled={!canUndo}
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
+          sx={SECONDARY_BUTTON_SX}
         >
           1手戻る
         </Button>
+        <Button variant="outlined" size="small" onClick={() => setRecordDialogOpen(true)} sx={SECONDARY_BUTTON_SX}>
+          棋譜
+        </Button>
+        <Button component={Link} to="/strange-othello/editor" variant="outlined" size="small" sx={SECONDARY_BUTTON_SX}>
+          盤面エディタ
+        </Button>
         <Button
           component={Link}
           to="/"
           onClick={handleRestart}
           variant="outlined"
           size="small"
-          sx={{
-            borderRadius: 10,
-            px: 3,
-            py: 0.5,
-            color: "text.secondary",
-            borderColor: "divider",
-            fontSize: "0.85rem",
-            "&:hover": { borderColor: "text.secondary" },
-            width: { xs: "100%", sm: "auto" },
-          }}
+          sx={SECONDARY_BUTTON_SX}
         >
           タイトルへ
         </Button>
       </Box>
 
+      <OthelloRecordDialog
+        open={recordDialogOpen}
+        initialBoard={initialBoard}
+        initialTurn={initialTurn}
+        gameRecord={gameRecord}
+        onClose={() => setRecordDialogOpen(false)}
+      />
+
       <ResultOverlay
         open={gameState.gameOver}
-        playerWon={gameState.winner === "black"}
+        playerWon={gameState.winner === playerColor}
         resultLabel={resultLabel}
         onRestart={handleRestart}
       />
     </GamePageLayout>
   )
 }
+
+export default function StrangeOthelloPage({ customPosition }: { customPosition?: CustomOthelloPosition }) {
+  const [variantId, setVariantId] = usePersistentState<OthelloBoardVariantId>(
+    STRANGE_OTHELLO_VARIANT_STORAGE_KEY,
+    DEFAULT_BOARD_VARIANT,
+  )
+
+  if (customPosition) {
+    return <StrangeOthelloGameView customPosition={customPosition} />
+  }
+
+  // 盤面ごとに保存先が変わるので、切り替えたら作り直す
+  return <StrangeOthelloGameView key={variantId} variantId={variantId} onVariantChange={setVariantId} />
+}
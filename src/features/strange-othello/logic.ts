@@ -1,19 +1,36 @@
-import { DIRECTIONS, INITIAL_BOARD } from "./constants"
-import type { Board, EvalTable, OthelloColor, Position, StrangeOthelloGameState, StrangeOthelloSession } from "./types"
-
-function cloneBoard(board: Board): Board {
+import { createRandomSeed } from "../../utils/seededRandom"
+import {
+  applyMoveBits,
+  bitboardsToBoard,
+  bitsToPositions,
+  boardToBitboards,
+  getFlipBits,
+  getLegalMoveBits,
+} from "./bitboard"
+import { COLOR_LABELS, MAX_SOLVABLE_EMPTY_CELLS, INITIAL_BOARD } from "./constants"
+import { lookupPackedValue } from "./packedTable"
+import type {
+  Board,
+  EvalTable,
+  GameRecordParseResult,
+  OthelloAILevel,
+  OthelloColor,
+  OthelloRecordMove,
+  OthelloReplayFrame,
+  Position,
+  StrangeOthelloGameState,
+  StrangeOthelloSession,
+} from "./types"
+
+export function cloneBoard(board: Board): Board {
   return board.map((row) => [...row])
 }
 
-function isValidPosition(board: Board, row: number, col: number) {
-  return row >= 0 && row < board.length && col >= 0 && col < board[0].length
-}
-
 function isSamePosition(left: Position, right: Position) {
   return left.row === right.row && left.col === right.col
 }
 
-function getOpponentColor(color: OthelloColor): OthelloColor {
+export function getOpponentColor(color: OthelloColor): OthelloColor {
   return color === "black" ? "white" : "black"
 }
 
@@ -23,6 +40,7 @@ function buildGameState(
   validMoves: Position[],
   gameOver = false,
   winner: "black" | "white" | "draw" | null = null,
+  lastMove: OthelloRecordMove | null = null,
 ): StrangeOthelloGameState {
   return {
     board,
@@ -32,20 +50,60 @@ function buildGameState(
     gameOver,
     winner,
     validMoves,
+    lastMove,
   }
 }
 
-export function createInitialStrangeOthelloState(): StrangeOthelloGameState {
-  const board = cloneBoard(INITIAL_BOARD)
-  return buildGameState(board, "black", findValidMoves(board, "black"))
+export function createInitialStrangeOthelloState(
+  initialBoard: Board = INITIAL_BOARD,
+  initialTurn: OthelloColor = "black",
+): StrangeOthelloGameState {
+  const board = cloneBoard(initialBoard)
+  return buildGameState(board, initialTurn, findValidMoves(board, initialTurn))
 }
 
-export function createInitialStrangeOthelloSession(): StrangeOthelloSession {
+export function createInitialStrangeOthelloSession(
+  initialBoard: Board = INITIAL_BOARD,
+  initialTurn: OthelloColor = "black",
+  playerColor: OthelloColor = "black",
+  aiLevel: OthelloAILevel = "perfect",
+  randomSeed = createRandomSeed(),
+): StrangeOthelloSession {
   return {
-    gameState: createInitialStrangeOthelloState(),
+    gameState: createInitialStrangeOthelloState(initialBoard, initialTurn),
     history: [],
     showEvaluation: false,
+    playerColor,
+    aiLevel,
+    initialRandomSeed: randomSeed,
+    randomSeed,
+    randomSeedHistory: [],
+  }
+}
+
+export function createEmptyBoard(rows: number, cols: number): Board {
+  return Array.from({ length: rows }, () => Array.from({ length: cols }, () => "empty" as const))
+}
+
+export function validateCustomPosition(board: Board, initialTurn: OthelloColor) {
+  const errors: string[] = []
+  const emptyCount = board.flat().filter((cell) => cell === "empty").length
+
+  if (countPieces(board, "black") === 0 || countPieces(board, "white") === 0) {
+    errors.push("黒と白の石をそれぞれ1つ以上置いてください")
+  }
+
+  if (emptyCount === 0) {
+    errors.push("空きマスがありません")
+  } else if (emptyCount > MAX_SOLVABLE_EMPTY_CELLS) {
+    errors.push(`AIが解析できるように、空きマスは${MAX_SOLVABLE_EMPTY_CELLS}個以下にしてください（現在${emptyCount}個）`)
+  }
+
+  if (errors.length === 0 && findValidMoves(board, initialTurn).length === 0) {
+    errors.push(`先手（${initialTurn === "black" ? "黒" : "白"}）が打てるマスがありません`)
   }
+
+  return errors
 }
 
 export function countPieces(board: Board, color: "black" | "white") {
@@ -71,73 +129,20 @@ export function encodeEvalState(board: Board, turn: OthelloColor) {
 }
 
 export function findValidMoves(board: Board, color: "black" | "white"): Position[] {
-  const opponent = color === "black" ? "white" : "black"
-  const validMoves: Position[] = []
-
-  for (let row = 0; row < board.length; row += 1) {
-    for (let col = 0; col < board[row].length; col += 1) {
-      if (board[row][col] !== "empty") {
-        continue
-      }
-
-      for (const direction of DIRECTIONS) {
-        let currentRow = row + direction.row
-        let currentCol = col + direction.col
-        let foundOpponent = false
-
-        while (isValidPosition(board, currentRow, currentCol) && board[currentRow][currentCol] === opponent) {
-          foundOpponent = true
-          currentRow += direction.row
-          currentCol += direction.col
-        }
-
-        if (foundOpponent && isValidPosition(board, currentRow, currentCol) && board[currentRow][currentCol] === color) {
-          validMoves.push({ row, col })
-          break
-        }
-      }
-    }
-  }
-
-  return validMoves
+  const cols = board[0].length
+  return bitsToPositions(getLegalMoveBits(boardToBitboards(board), color, board.length, cols), cols)
 }
 
 export function getFlippedPieces(board: Board, row: number, col: number, color: "black" | "white") {
-  const opponent = color === "black" ? "white" : "black"
-  const flippedPieces: Position[] = []
-
-  for (const direction of DIRECTIONS) {
-    const piecesToFlip: Position[] = []
-    let currentRow = row + direction.row
-    let currentCol = col + direction.col
-
-    while (isValidPosition(board, currentRow, currentCol) && board[currentRow][currentCol] === opponent) {
-      piecesToFlip.push({ row: currentRow, col: currentCol })
-      currentRow += direction.row
-      currentCol += direction.col
-    }
-
-    if (
-      piecesToFlip.length > 0 &&
-      isValidPosition(board, currentRow, currentCol) &&
-      board[currentRow][currentCol] === color
-    ) {
-      flippedPieces.push(...piecesToFlip)
-    }
-  }
-
-  return flippedPieces
+  const cols = board[0].length
+  return bitsToPositions(getFlipBits(boardToBitboards(board), row * cols + col, color, board.length, cols), cols)
 }
 
 export function placePiece(board: Board, row: number, col: number, color: "black" | "white") {
-  const nextBoard = cloneBoard(board)
-  nextBoard[row][col] = color
-
-  for (const piece of getFlippedPieces(board, row, col, color)) {
-    nextBoard[piece.row][piece.col] = color
-  }
-
-  return nextBoard
+  const rows = board.length
+  const cols = board[0].length
+  const nextBitboards = applyMoveBits(boardToBitboards(board), row * cols + col, color, rows, cols)
+  return bitboardsToBoard(nextBitboards, rows, cols)
 }
 
 export function determineWinner(board: Board): "black" | "white" | "draw" {
@@ -155,25 +160,15 @@ export function determineWinner(board: Board): "black" | "white" | "draw" {
   return "draw"
 }
 
+// 打てるマスがなくても手番は相手に渡し、その局面でパスを1手として指させる。双方打てなければ終局
 function resolveNextTurnState(board: Board, playerWhoFinishedTurn: OthelloColor) {
   const nextTurn = getOpponentColor(playerWhoFinishedTurn)
   const nextValidMoves = findValidMoves(board, nextTurn)
-
-  if (nextValidMoves.length > 0) {
-    return {
-      currentTurn: nextTurn,
-      validMoves: nextValidMoves,
-      gameOver: false,
-      winner: null,
-    }
-  }
-
-  const retryValidMoves = findValidMoves(board, playerWhoFinishedTurn)
-  const gameOver = retryValidMoves.length === 0
+  const gameOver = nextValidMoves.length === 0 && findValidMoves(board, playerWhoFinishedTurn).length === 0
 
   return {
-    currentTurn: playerWhoFinishedTurn,
-    validMoves: retryValidMoves,
+    currentTurn: nextTurn,
+    validMoves: nextValidMoves,
     gameOver,
     winner: gameOver ? determineWinner(board) : null,
   }
@@ -184,41 +179,29 @@ function getEvalValue(board: Board, turn: OthelloColor, evalTable: EvalTable | n
     return null
   }
 
-  const value = evalTable.evalTable[encodeEvalState(board, turn)]
-  return value !== undefined ? value : null
+  return lookupPackedValue(evalTable.evalTable, board, turn)
 }
 
-export function applyBlackMove(state: StrangeOthelloGameState, row: number, col: number): StrangeOthelloGameState | null {
-  if (
-    state.currentTurn !== "black" ||
-    state.gameOver ||
-    !state.validMoves.some((move) => move.row === row && move.col === col)
-  ) {
-    return null
-  }
-
-  const nextBoard = placePiece(state.board, row, col, "black")
-  const nextTurnState = resolveNextTurnState(nextBoard, "black")
-
-  return buildGameState(
-    nextBoard,
-    nextTurnState.currentTurn,
-    nextTurnState.validMoves,
-    nextTurnState.gameOver,
-    nextTurnState.winner,
-  )
+export function mustPass(state: StrangeOthelloGameState) {
+  return !state.gameOver && state.validMoves.length === 0
 }
 
-export function applyWhiteMove(
+// position が null の手はパス。打てるマスがあるときのパスや打てないマスへの着手は受け付けない
+export function applyMove(
   state: StrangeOthelloGameState,
-  move: Position | null,
+  color: OthelloColor,
+  position: Position | null,
 ): StrangeOthelloGameState | null {
-  if (state.currentTurn !== "white" || state.gameOver) {
+  if (state.currentTurn !== color || state.gameOver) {
     return null
   }
 
-  if (!move) {
-    const nextTurnState = resolveNextTurnState(state.board, "white")
+  if (!position) {
+    if (!mustPass(state)) {
+      return null
+    }
+
+    const nextTurnState = resolveNextTurnState(state.board, color)
 
     return buildGameState(
       state.board,
@@ -226,11 +209,16 @@ export function applyWhiteMove(
       nextTurnState.validMoves,
       nextTurnState.gameOver,
       nextTurnState.winner,
+      { color, position: null },
     )
   }
 
-  const nextBoard = placePiece(state.board, move.row, move.col, "white")
-  const nextTurnState = resolveNextTurnState(nextBoard, "white")
+  if (!isPlayableMove(state.validMoves, position.row, position.col)) {
+    return null
+  }
+
+  const nextBoard = placePiece(state.board, position.row, position.col, color)
+  const nextTurnState = resolveNextTurnState(nextBoard, color)
 
   return buildGameState(
     nextBoard,
@@ -238,9 +226,21 @@ export function applyWhiteMove(
     nextTurnState.validMoves,
     nextTurnState.gameOver,
     nextTurnState.winner,
+    { color, position: { row: position.row, col: position.col } },
   )
 }
 
+// 1手戻すときは、プレイヤーが最後に自分で手を選んだ局面まで戻る（パスしかできない局面は飛ばす）
+export function getUndoTargetIndex(history: StrangeOthelloGameState[], playerColor: OthelloColor) {
+  for (let index = history.length - 1; index >= 0; index -= 1) {
+    if (history[index].currentTurn === playerColor && history[index].validMoves.length > 0) {
+      return index
+    }
+  }
+
+  return null
+}
+
 export function getCurrentEval(board: Board, currentTurn: OthelloColor, evalTable: EvalTable | null) {
   return getEvalValue(board, currentTurn, evalTable)
 }
@@ -265,8 +265,55 @@ export function getMoveEvals(gameState: StrangeOthelloGameState, evalTable: Eval
   return result
 }
 
-export function evalToBarPercent(evalValue: number) {
-  const maxEval = 36
+// 評価値テーブルをたどり、双方が最善を尽くしたときの進行（パスを含む）を返す
+export function getPrincipalVariation(gameState: StrangeOthelloGameState, evalTable: EvalTable | null) {
+  const moves: OthelloRecordMove[] = []
+  let board = gameState.board
+  let turn = gameState.currentTurn
+  let value = getEvalValue(board, turn, evalTable)
+
+  while (value !== null) {
+    const validMoves = findValidMoves(board, turn)
+    const opponent = getOpponentColor(turn)
+
+    if (validMoves.length === 0) {
+      if (findValidMoves(board, opponent).length === 0) {
+        break
+      }
+
+      moves.push({ color: turn, position: null })
+      turn = opponent
+      continue
+    }
+
+    const currentBoard = board
+    const currentTurn = turn
+    const currentValue = value
+    const bestMove = validMoves.find(
+      (move) =>
+        getEvalValue(placePiece(currentBoard, move.row, move.col, currentTurn), opponent, evalTable) === currentValue,
+    )
+
+    if (!bestMove) {
+      break
+    }
+
+    board = placePiece(board, bestMove.row, bestMove.col, turn)
+    moves.push({ color: turn, position: bestMove })
+    turn = opponent
+    value = getEvalValue(board, turn, evalTable)
+  }
+
+  return moves
+}
+
+export function isSolvableBoard(board: Board) {
+  return board.flat().filter((cell) => cell === "empty").length <= MAX_SOLVABLE_EMPTY_CELLS
+}
+
+// 評価値は最終駒数差なので、盤面のマス数が振れ幅の上限になる
+export function evalToBarPercent(evalValue: number, cellCount: number) {
+  const maxEval = cellCount
   const clamped = Math.max(-maxEval, Math.min(maxEval, evalValue))
   return ((clamped + maxEval) / (2 * maxEval)) * 100
 }
@@ -274,3 +321,95 @@ export function evalToBarPercent(evalValue: number) {
 export function isPlayableMove(validMoves: Position[], row: number, col: number) {
   return validMoves.some((move) => isSamePosition(move, { row, col }))
 }
+
+const PASS_NOTATION = "pass"
+
+// 列を a, b, c...、行を 1, 2, 3... で表す（例: 左上は a1）
+export function formatMoveNotation(position: Position | null) {
+  return position ? `${String.fromCharCode(97 + position.col)}${position.row + 1}` : PASS_NOTATION
+}
+
+export function getGameRecordMoves(states: StrangeOthelloGameState[]): OthelloRecordMove[] {
+  return states.flatMap((state) => (state.lastMove ? [state.lastMove] : []))
+}
+
+export function exportGameRecord(session: StrangeOthelloSession) {
+  return getGameRecordMoves([...session.history, session.gameState])
+    .map((move) => formatMoveNotation(move.position))
+    .join(" ")
+}
+
+export function parseGameRecord(text: string, initialBoard: Board, initialTurn: OthelloColor): GameRecordParseResult {
+  const rows = initialBoard.length
+  const cols = initialBoard[0].length
+  const tokens = text.trim().toLowerCase().split(/[\s,]+/).filter(Boolean)
+  const moves: OthelloRecordMove[] = []
+  let board = cloneBoard(initialBoard)
+  let turn = initialTurn
+
+  for (const [index, token] of tokens.entries()) {
+    const label = `${index + 1}手目「${token}」`
+    const colorLabel = COLOR_LABELS[turn]
+    const validMoves = findValidMoves(board, turn)
+
+    if (validMoves.length === 0 && findValidMoves(board, getOpponentColor(turn)).length === 0) {
+      return { type: "invalid", message: `${label}: 対局はすでに終わっています` }
+    }
+
+    if (token === PASS_NOTATION) {
+      if (validMoves.length > 0) {
+        return { type: "invalid", message: `${label}: ${colorLabel}は打てるマスがあるのでパスできません` }
+      }
+
+      moves.push({ color: turn, position: null })
+      turn = getOpponentColor(turn)
+      continue
+    }
+
+    const match = /^([a-z])([1-9][0-9]*)$/.exec(token)
+
+    if (!match) {
+      return { type: "invalid", message: `${label}: 座標（例: c4）か ${PASS_NOTATION} で書いてください` }
+    }
+
+    const position = { row: Number(match[2]) - 1, col: match[1].charCodeAt(0) - 97 }
+
+    if (position.row >= rows || position.col >= cols) {
+      return { type: "invalid", message: `${label}: 盤面の外のマスです` }
+    }
+
+    if (validMoves.length === 0) {
+      return { type: "invalid", message: `${label}: ${colorLabel}は打てるマスがないので ${PASS_NOTATION} が必要です` }
+    }
+
+    if (!isPlayableMove(validMoves, position.row, position.col)) {
+      return { type: "invalid", message: `${label}: ${colorLabel}はそのマスに打てません` }
+    }
+
+    board = placePiece(board, position.row, position.col, turn)
+    moves.push({ color: turn, position })
+    turn = getOpponentColor(turn)
+  }
+
+  return { type: "parsed", moves }
+}
+
+export function buildReplayFrames(
+  initialBoard: Board,
+  initialTurn: OthelloColor,
+  moves: OthelloRecordMove[],
+): OthelloReplayFrame[] {
+  const frames: OthelloReplayFrame[] = [{ board: cloneBoard(initialBoard), currentTurn: initialTurn, move: null }]
+
+  for (const move of moves) {
+    const { board } = frames[frames.length - 1]
+
+    frames.push({
+      board: move.position ? placePiece(board, move.position.row, move.position.col, move.color) : board,
+      currentTurn: getOpponentColor(move.color),
+      move,
+    })
+  }
+
+  return frames
+}
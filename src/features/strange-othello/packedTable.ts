@@ -0,0 +1,247 @@
+import { hasBit, type Bitboards } from "./bitboard"
+import type {
+  Board,
+  CellState,
+  EvalTable,
+  EvalTableJson,
+  OthelloColor,
+  OthelloSolutionTable,
+  OthelloSolutionTableJson,
+  PackedStateTable,
+  PackedTableFile,
+  PackedTableKind,
+  Position,
+} from "./types"
+
+// バイナリ形式（scripts/generate_eval_table.py と共通）
+//   ヘッダ 20 バイト: "SOTB", 形式バージョン, 種別, 行数, 列数, ルート評価値(int8), 初手番,
+//                    予約(2), エントリ数(uint32 LE), 探索局面数(uint32 LE)
+//   キー: 1マス2ビット（空=0, 黒=1, 白=2）+ 手番1ビット（黒=0, 白=1）を下位ビットから詰め、昇順に並べる
+//   値: キーと同じ順の int8（評価値、または着手マスの row * cols + col）
+const MAGIC = "SOTB"
+const FORMAT_VERSION = 1
+const HEADER_BYTE_LENGTH = 20
+const TABLE_KINDS: PackedTableKind[] = ["eval", "move"]
+const CELL_CODES: Record<CellState, number> = { empty: 0, black: 1, white: 2 }
+const KEY_CELL_CODES: Record<string, number> = { ".": 0, B: 1, W: 2 }
+
+function getKeyByteLength(rows: number, cols: number) {
+  return Math.ceil((rows * cols * 2 + 1) / 8)
+}
+
+function writeKeyBits(key: Uint8Array, cellCodes: number[], turn: OthelloColor) {
+  cellCodes.forEach((code, index) => {
+    const bit = index * 2
+    key[bit >> 3] |= code << (bit & 7)
+  })
+
+  if (turn === "white") {
+    const bit = cellCodes.length * 2
+    key[bit >> 3] |= 1 << (bit & 7)
+  }
+
+  return key
+}
+
+function compareKeys(keys: Uint8Array, offset: number, key: Uint8Array) {
+  for (let index = 0; index < key.length; index += 1) {
+    const difference = keys[offset + index] - key[index]
+
+    if (difference !== 0) {
+      return difference
+    }
+  }
+
+  return 0
+}
+
+export function packBoardKey(board: Board, turn: OthelloColor) {
+  const key = new Uint8Array(getKeyByteLength(board.length, board[0].length))
+  return writeKeyBits(key, board.flat().map((cell) => CELL_CODES[cell]), turn)
+}
+
+// encodeEvalState 形式（"b:..BW..."）の文字列キーを変換する
+export function packEvalStateKey(encodedState: string, rows: number, cols: number) {
+  const turn: OthelloColor = encodedState[0] === "w" ? "white" : "black"
+  const cells = encodedState.slice(2)
+
+  if (cells.length !== rows * cols) {
+    throw new Error(`Invalid encoded state length: ${cells.length}`)
+  }
+
+  const key = new Uint8Array(getKeyByteLength(rows, cols))
+  return writeKeyBits(key, Array.from(cells, (cell) => KEY_CELL_CODES[cell] ?? 0), turn)
+}
+
+export function packBitboardKey(bitboards: Bitboards, turn: OthelloColor, rows: number, cols: number) {
+  const cellCount = rows * cols
+  const key = new Uint8Array(getKeyByteLength(rows, cols))
+
+  for (let index = 0; index < cellCount; index += 1) {
+    const code = hasBit(bitboards.black, index)
+      ? CELL_CODES.black
+      : hasBit(bitboards.white, index)
+        ? CELL_CODES.white
+        : CELL_CODES.empty
+    const bit = index * 2
+    key[bit >> 3] |= code << (bit & 7)
+  }
+
+  if (turn === "white") {
+    const bit = cellCount * 2
+    key[bit >> 3] |= 1 << (bit & 7)
+  }
+
+  return key
+}
+
+export function createPackedStateTable(
+  rows: number,
+  cols: number,
+  entries: Iterable<[Uint8Array, number]>,
+): PackedStateTable {
+  const keyByteLength = getKeyByteLength(rows, cols)
+  const packedEntries = Array.from(entries, ([key, value]) => ({ key, value }))
+
+  packedEntries.sort((left, right) => compareKeys(left.key, 0, right.key))
+
+  const keys = new Uint8Array(packedEntries.length * keyByteLength)
+  const values = new Int8Array(packedEntries.length)
+
+  packedEntries.forEach((entry, index) => {
+    keys.set(entry.key, index * keyByteLength)
+    values[index] = entry.value
+  })
+
+  return { rows, cols, keyByteLength, count: packedEntries.length, keys, values }
+}
+
+export function lookupPackedValue(table: PackedStateTable, board: Board, turn: OthelloColor): number | null {
+  if (board.length !== table.rows || board[0].length !== table.cols) {
+    return null
+  }
+
+  const key = packBoardKey(board, turn)
+  let low = 0
+  let high = table.count - 1
+
+  while (low <= high) {
+    const middle = (low + high) >> 1
+    const comparison = compareKeys(table.keys, middle * table.keyByteLength, key)
+
+    if (comparison === 0) {
+      return table.values[middle]
+    }
+
+    if (comparison < 0) {
+      low = middle + 1
+    } else {
+      high = middle - 1
+    }
+  }
+
+  return null
+}
+
+export function lookupPackedMove(table: PackedStateTable, board: Board, turn: OthelloColor): Position | null {
+  const value = lookupPackedValue(table, board, turn)
+  return value === null ? null : { row: Math.floor(value / table.cols), col: value % table.cols }
+}
+
+export function packSolutionTableJson(json: OthelloSolutionTableJson, rows: number, cols: number): OthelloSolutionTable {
+  // 旧形式の JSON には白の最善手しか入っていない
+  const toEntries = (turnInitial: string, moveTable: Record<string, [number, number]> = {}) =>
+    Object.entries(moveTable).map(([encodedBoard, [row, col]]): [Uint8Array, number] => [
+      packEvalStateKey(`${turnInitial}:${encodedBoard}`, rows, cols),
+      row * cols + col,
+    ])
+  const entries = [...toEntries("w", json.whiteMoveTable), ...toEntries("b", json.blackMoveTable)]
+
+  return {
+    initialTurn: json.initialTurn,
+    rootValue: json.rootValue,
+    moveTable: createPackedStateTable(rows, cols, entries),
+    visitedStateCount: json.visitedStateCount,
+    moveStateCount: entries.length,
+  }
+}
+
+export function packEvalTableJson(json: EvalTableJson, rows: number, cols: number): EvalTable {
+  return {
+    rootValue: json.rootValue,
+    evalTable: createPackedStateTable(
+      rows,
+      cols,
+      Object.entries(json.evalTable).map(([encodedState, value]): [Uint8Array, number] => [
+        packEvalStateKey(encodedState, rows, cols),
+        value,
+      ]),
+    ),
+    stateCount: json.stateCount,
+  }
+}
+
+export function solutionTableFromFile(file: PackedTableFile): OthelloSolutionTable {
+  if (file.kind !== "move") {
+    throw new Error(`Expected a move table file but got "${file.kind}"`)
+  }
+
+  return {
+    initialTurn: file.initialTurn,
+    rootValue: file.rootValue,
+    moveTable: file.table,
+    visitedStateCount: file.stateCount,
+    moveStateCount: file.table.count,
+  }
+}
+
+export function evalTableFromFile(file: PackedTableFile): EvalTable {
+  if (file.kind !== "eval") {
+    throw new Error(`Expected an eval table file but got "${file.kind}"`)
+  }
+
+  return {
+    rootValue: file.rootValue,
+    evalTable: file.table,
+    stateCount: file.stateCount,
+  }
+}
+
+export function decodePackedTableFile(buffer: ArrayBuffer): PackedTableFile {
+  const view = new DataView(buffer)
+  const magic = String.fromCharCode(...new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength)))
+
+  if (buffer.byteLength < HEADER_BYTE_LENGTH || magic !== MAGIC) {
+    throw new Error("Not a strange othello table file")
+  }
+
+  if (view.getUint8(4) !== FORMAT_VERSION) {
+    throw new Error(`Unsupported table format version: ${view.getUint8(4)}`)
+  }
+
+  const kind = TABLE_KINDS[view.getUint8(5)]
+  const rows = view.getUint8(6)
+  const cols = view.getUint8(7)
+  const count = view.getUint32(12, true)
+  const keyByteLength = getKeyByteLength(rows, cols)
+  const keysEnd = HEADER_BYTE_LENGTH + count * keyByteLength
+
+  if (!kind || buffer.byteLength !== keysEnd + count) {
+    throw new Error("Corrupted strange othello table file")
+  }
+
+  return {
+    kind,
+    rootValue: view.getInt8(8),
+    initialTurn: view.getUint8(9) === 1 ? "white" : "black",
+    stateCount: view.getUint32(16, true),
+    table: {
+      rows,
+      cols,
+      keyByteLength,
+      count,
+      keys: new Uint8Array(buffer, HEADER_BYTE_LENGTH, count * keyByteLength),
+      values: new Int8Array(buffer, keysEnd, count),
+    },
+  }
+}
@@ -0,0 +1,109 @@
+import {
+  applyMoveBits,
+  bitsToIndices,
+  boardToBitboards,
+  countBits,
+  getLegalMoveBits,
+  isEmptyBitSet,
+  type Bitboards,
+} from "./bitboard"
+import { createPackedStateTable, packBitboardKey } from "./packedTable"
+import type { Board, EvalTable, OthelloColor, OthelloSolutionTable, StrangeOthelloTables } from "./types"
+
+interface SolvedState {
+  bitboards: Bitboards
+  turn: OthelloColor
+  value: number
+}
+
+function encodeSearchKey(bitboards: Bitboards, turn: OthelloColor) {
+  const { black, white } = bitboards
+  return `${turn[0]}:${black.lo >>> 0}:${black.hi >>> 0}:${white.lo >>> 0}:${white.hi >>> 0}`
+}
+
+// scripts/generate_eval_table.py と同じメモ化ミニマックス。評価値は最終駒数差（黒 - 白）
+export function solveStrangeOthello(initialBoard: Board, initialTurn: OthelloColor): StrangeOthelloTables {
+  const rows = initialBoard.length
+  const cols = initialBoard[0].length
+  const solvedStates = new Map<string, SolvedState>()
+  const bestMoves: [SolvedState, number][] = []
+
+  const record = (key: string, bitboards: Bitboards, turn: OthelloColor, value: number) => {
+    const state = { bitboards, turn, value }
+    solvedStates.set(key, state)
+    return state
+  }
+
+  const minimax = (bitboards: Bitboards, turn: OthelloColor): number => {
+    const key = encodeSearchKey(bitboards, turn)
+    const cached = solvedStates.get(key)
+
+    if (cached) {
+      return cached.value
+    }
+
+    const opponent = turn === "black" ? "white" : "black"
+    const moves = getLegalMoveBits(bitboards, turn, rows, cols)
+
+    if (isEmptyBitSet(moves)) {
+      if (isEmptyBitSet(getLegalMoveBits(bitboards, opponent, rows, cols))) {
+        const result = countBits(bitboards.black) - countBits(bitboards.white)
+        record(key, bitboards, turn, result)
+        record(encodeSearchKey(bitboards, opponent), bitboards, opponent, result)
+        return result
+      }
+
+      return record(key, bitboards, turn, minimax(bitboards, opponent)).value
+    }
+
+    // findValidMoves と同じく下位ビット（盤面の左上）から順に調べ、同点なら先に見つけた手を残す
+    let best = turn === "black" ? Number.NEGATIVE_INFINITY : Number.POSITIVE_INFINITY
+    let bestMove: number | null = null
+
+    for (const index of bitsToIndices(moves)) {
+      const value = minimax(applyMoveBits(bitboards, index, turn, rows, cols), opponent)
+
+      if (turn === "black" ? value > best : value < best) {
+        best = value
+        bestMove = index
+      }
+    }
+
+    const state = record(key, bitboards, turn, best)
+
+    if (bestMove !== null) {
+      bestMoves.push([state, bestMove])
+    }
+
+    return best
+  }
+
+  const rootValue = minimax(boardToBitboards(initialBoard), initialTurn)
+  const toEntry = (state: SolvedState, value: number): [Uint8Array, number] => [
+    packBitboardKey(state.bitboards, state.turn, rows, cols),
+    value,
+  ]
+
+  const solutionTable: OthelloSolutionTable = {
+    initialTurn,
+    rootValue,
+    moveTable: createPackedStateTable(
+      rows,
+      cols,
+      bestMoves.map(([state, move]) => toEntry(state, move)),
+    ),
+    visitedStateCount: solvedStates.size,
+    moveStateCount: bestMoves.length,
+  }
+  const evalTable: EvalTable = {
+    rootValue,
+    evalTable: createPackedStateTable(
+      rows,
+      cols,
+      Array.from(solvedStates.values(), (state) => toEntry(state, state.value)),
+    ),
+    stateCount: solvedStates.size,
+  }
+
+  return { solutionTable, evalTable }
+}
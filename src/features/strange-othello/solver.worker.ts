@@ -0,0 +1,22 @@
+import { solveStrangeOthello } from "./solver"
+import type { SolverRequest, SolverResponse } from "./types"
+
+self.onmessage = (event: MessageEvent<SolverRequest>) => {
+  let response: SolverResponse
+
+  try {
+    response = { type: "solved", tables: solveStrangeOthello(event.data.board, event.data.initialTurn) }
+  } catch (error) {
+    response = { type: "failed", message: error instanceof Error ? error.message : String(error) }
+  }
+
+  const transfer =
+    response.type === "solved"
+      ? [response.tables.solutionTable.moveTable, response.tables.evalTable.evalTable].flatMap((table) => [
+          table.keys.buffer,
+          table.values.buffer,
+        ])
+      : []
+
+  self.postMessage(response, { transfer })
+}
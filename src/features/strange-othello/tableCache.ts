@@ -0,0 +1,73 @@
+import { STRANGE_OTHELLO_TABLES_VERSION } from "./constants"
+import { encodeEvalState } from "./logic"
+import type { Board, OthelloColor, StrangeOthelloTables } from "./types"
+
+const DATABASE_NAME = "logic-game-challenge"
+const DATABASE_VERSION = 1
+const STORE_NAME = "strange-othello-tables"
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function runRequest<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return openDatabase().then(
+    (database) =>
+      new Promise<T>((resolve, reject) => {
+        const transaction = database.transaction(STORE_NAME, mode)
+        const request = operation(transaction.objectStore(STORE_NAME))
+
+        transaction.oncomplete = () => {
+          database.close()
+          resolve(request.result)
+        }
+        transaction.onerror = () => {
+          database.close()
+          reject(transaction.error)
+        }
+        // 容量不足などでリクエストのエラーなしに中断されることもある
+        transaction.onabort = () => {
+          database.close()
+          reject(transaction.error)
+        }
+      }),
+  )
+}
+
+// テーブルは開始局面ごとに保存する。同じ盤面と手番なら、保存した局面が違っても同じテーブルを使う
+export function getTablesCacheKey(board: Board, initialTurn: OthelloColor) {
+  return `${STRANGE_OTHELLO_TABLES_VERSION}:${encodeEvalState(board, initialTurn)}`
+}
+
+export async function readCachedTables(key: string): Promise<StrangeOthelloTables | null> {
+  if (typeof window === "undefined" || !window.indexedDB) {
+    return null
+  }
+
+  const tables = await runRequest<StrangeOthelloTables | undefined>("readonly", (store) => store.get(key))
+  return tables ?? null
+}
+
+export async function writeCachedTables(key: string, tables: StrangeOthelloTables) {
+  if (typeof window === "undefined" || !window.indexedDB) {
+    return
+  }
+
+  await runRequest("readwrite", (store) => store.put(tables, key))
+}
+
+export async function deleteCachedTables(key: string) {
+  if (typeof window === "undefined" || !window.indexedDB) {
+    return
+  }
+
+  await runRequest("readwrite", (store) => store.delete(key))
+}
@@ -1,3 +1,5 @@
+import type { RandomSeedState } from "../../utils/seededRandom"
+
 export type OthelloColor = "black" | "white"
 export type CellState = "empty" | "black" | "white"
 export type Board = CellState[][]
@@ -7,20 +9,76 @@ export interface Position {
   col: number
 }
 
+export interface PackedStateTable {
+  rows: number
+  cols: number
+  keyByteLength: number
+  count: number
+  keys: Uint8Array
+  values: Int8Array
+}
+
+export type PackedTableKind = "eval" | "move"
+
+export interface PackedTableFile {
+  kind: PackedTableKind
+  rootValue: number
+  initialTurn: OthelloColor
+  stateCount: number
+  table: PackedStateTable
+}
+
+// 最善手テーブル。キーに手番を含むので、黒番・白番どちらの最善手も同じテーブルに入る
 export interface OthelloSolutionTable {
+  initialTurn: OthelloColor
+  rootValue: number
+  moveTable: PackedStateTable
+  visitedStateCount: number
+  moveStateCount: number
+}
+
+export interface EvalTable {
+  rootValue: number
+  evalTable: PackedStateTable
+  stateCount: number
+}
+
+export interface OthelloSolutionTableJson {
   initialTurn: OthelloColor
   rootValue: number
   whiteMoveTable: Record<string, [number, number]>
+  blackMoveTable?: Record<string, [number, number]>
   visitedStateCount: number
   whiteStateCount: number
+  blackStateCount?: number
 }
 
-export interface EvalTable {
+export interface EvalTableJson {
   rootValue: number
   evalTable: Record<string, number>
   stateCount: number
 }
 
+export interface StrangeOthelloTables {
+  solutionTable: OthelloSolutionTable
+  evalTable: EvalTable
+}
+
+// unavailable: 空きマスが多すぎて完全解析できない盤面
+export type StrangeOthelloTablesStatus = "loading" | "solving" | "ready" | "failed" | "unavailable"
+
+// 盤面のバリエーション。ロジックは 64 マスまでの任意の長方形を扱える
+export type OthelloBoardVariantId = "4x4" | "6x6" | "8x8"
+
+export interface SolverRequest {
+  board: Board
+  initialTurn: OthelloColor
+}
+
+export type SolverResponse =
+  | { type: "solved"; tables: StrangeOthelloTables }
+  | { type: "failed"; message: string }
+
 export interface StrangeOthelloGameState {
   board: Board
   currentTurn: OthelloColor
@@ -29,10 +87,41 @@ export interface StrangeOthelloGameState {
   gameOver: boolean
   winner: OthelloColor | "draw" | null
   validMoves: Position[]
+  // この局面に至った手。開始局面では null
+  lastMove: OthelloRecordMove | null
+}
+
+export interface CustomOthelloPosition {
+  id: string
+  name: string
+  board: Board
+  initialTurn: OthelloColor
+  createdAt: number
 }
 
-export interface StrangeOthelloSession {
+export type OthelloAILevel = "random" | "greedy" | "search" | "perfect"
+
+// seed は AI が同じくらい良い手のどれを打つかを選ぶのに使う
+export interface StrangeOthelloSession extends RandomSeedState {
   gameState: StrangeOthelloGameState
   history: StrangeOthelloGameState[]
   showEvaluation: boolean
+  playerColor: OthelloColor
+  aiLevel: OthelloAILevel
+}
+
+// 棋譜の1手。position が null の手はパス
+export interface OthelloRecordMove {
+  color: OthelloColor
+  position: Position | null
+}
+
+export type GameRecordParseResult =
+  | { type: "parsed"; moves: OthelloRecordMove[] }
+  | { type: "invalid"; message: string }
+
+export interface OthelloReplayFrame {
+  board: Board
+  currentTurn: OthelloColor
+  move: OthelloRecordMove | null
 }
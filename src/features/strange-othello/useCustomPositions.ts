@@ -0,0 +1,61 @@
+import { usePersistentState } from "../../hooks/usePersistentState"
+import {
+  BOARD_VARIANTS,
+  CUSTOM_POSITIONS_STORAGE_KEY,
+  CUSTOM_POSITIONS_STORAGE_VERSION,
+  getCustomGameStorageKey,
+} from "./constants"
+import { deleteCachedTables, getTablesCacheKey } from "./tableCache"
+import type { Board, CustomOthelloPosition, OthelloColor } from "./types"
+
+function createPositionId() {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function useCustomPositions() {
+  const [positions, setPositions] = usePersistentState<CustomOthelloPosition[]>(CUSTOM_POSITIONS_STORAGE_KEY, [], {
+    version: CUSTOM_POSITIONS_STORAGE_VERSION,
+  })
+
+  return {
+    positions,
+    savePosition: (name: string, board: Board, initialTurn: OthelloColor) => {
+      const position: CustomOthelloPosition = {
+        id: createPositionId(),
+        name,
+        board: board.map((row) => [...row]),
+        initialTurn,
+        createdAt: Date.now(),
+      }
+
+      setPositions((previousPositions) => [position, ...previousPositions])
+      return position
+    },
+    deletePosition: (positionId: string) => {
+      const deletedPosition = positions.find((position) => position.id === positionId)
+      const remainingPositions = positions.filter((position) => position.id !== positionId)
+      setPositions((previousPositions) => previousPositions.filter((position) => position.id !== positionId))
+
+      // 解析テーブルは、同じ開始局面を使う他の保存局面や標準の盤面がなければ消す
+      if (deletedPosition) {
+        const cacheKey = getTablesCacheKey(deletedPosition.board, deletedPosition.initialTurn)
+        const stillUsed = [
+          ...remainingPositions,
+          ...Object.values(BOARD_VARIANTS).map((variant) => ({ board: variant.board, initialTurn: "black" as const })),
+        ].some((position) => getTablesCacheKey(position.board, position.initialTurn) === cacheKey)
+
+        if (!stillUsed) {
+          deleteCachedTables(cacheKey).catch((error: unknown) => {
+            console.error(`Failed to clear cached tables for "${positionId}"`, error)
+          })
+        }
+      }
+
+      try {
+        window.localStorage.removeItem(getCustomGameStorageKey(positionId))
+      } catch (error) {
+        console.error(`Failed to clear custom game for "${positionId}"`, error)
+      }
+    },
+  }
+}
@@ -1,27 +1,85 @@
-import { useEffect, useRef } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { usePersistentState } from "../../hooks/usePersistentState"
-import { STRANGE_OTHELLO_STORAGE_KEY, STRANGE_OTHELLO_STORAGE_VERSION } from "./constants"
+import { createSeededRandom } from "../../utils/seededRandom"
+import { INITIAL_BOARD, STRANGE_OTHELLO_STORAGE_KEY, STRANGE_OTHELLO_STORAGE_VERSION } from "./constants"
 import {
-  applyBlackMove,
-  applyWhiteMove,
+  applyMove,
+  buildReplayFrames,
   createInitialStrangeOthelloSession,
-  encodeBoard,
+  exportGameRecord,
   getCurrentEval,
   getMoveEvals,
+  getOpponentColor,
+  getPrincipalVariation,
+  getUndoTargetIndex,
 } from "./logic"
+import { AI_STRATEGIES } from "./aiStrategies"
 import { useStrangeOthelloTables } from "./useStrangeOthelloTables"
-import type { Position, StrangeOthelloSession } from "./types"
+import type {
+  Board,
+  OthelloAILevel,
+  OthelloColor,
+  Position,
+  StrangeOthelloGameState,
+  StrangeOthelloSession,
+} from "./types"
+
+function applySessionMove(session: StrangeOthelloSession, color: OthelloColor, position: Position | null) {
+  const nextGameState = applyMove(session.gameState, color, position)
+
+  if (!nextGameState) {
+    return session
+  }
+
+  return {
+    ...session,
+    gameState: nextGameState,
+    history: [...session.history, session.gameState],
+    randomSeedHistory: [...session.randomSeedHistory, session.randomSeed],
+  }
+}
 
-export function useStrangeOthelloGame() {
-  const [session, setSession, resetSession] = usePersistentState<StrangeOthelloSession>(
-    STRANGE_OTHELLO_STORAGE_KEY,
-    createInitialStrangeOthelloSession,
+interface UseStrangeOthelloGameOptions {
+  storageKey?: string
+  initialBoard?: Board
+  initialTurn?: OthelloColor
+}
+
+export function useStrangeOthelloGame({
+  storageKey = STRANGE_OTHELLO_STORAGE_KEY,
+  initialBoard = INITIAL_BOARD,
+  initialTurn = "black",
+}: UseStrangeOthelloGameOptions = {}) {
+  const [session, setSession] = usePersistentState<StrangeOthelloSession>(
+    storageKey,
+    () => createInitialStrangeOthelloSession(initialBoard, initialTurn),
     { version: STRANGE_OTHELLO_STORAGE_VERSION },
   )
-  const { solutionTable, evalTable } = useStrangeOthelloTables()
+  const { solutionTable, evalTable, status: tablesStatus } = useStrangeOthelloTables(initialBoard, initialTurn)
   const titleClickCount = useRef(0)
   const titleClickTimer = useRef<ReturnType<typeof window.setTimeout> | null>(null)
-  const { gameState, history, showEvaluation } = session
+  const { gameState, history, showEvaluation, playerColor, aiLevel, randomSeed, initialRandomSeed } = session
+  const aiColor = getOpponentColor(playerColor)
+  const currentEval = useMemo(
+    () => (showEvaluation ? getCurrentEval(gameState.board, gameState.currentTurn, evalTable) : null),
+    [evalTable, gameState, showEvaluation],
+  )
+  const principalVariation = useMemo(
+    () => (showEvaluation ? getPrincipalVariation(gameState, evalTable) : []),
+    [evalTable, gameState, showEvaluation],
+  )
+  const principalVariationFrames = useMemo(
+    () => buildReplayFrames(gameState.board, gameState.currentTurn, principalVariation),
+    [gameState.board, gameState.currentTurn, principalVariation],
+  )
+  // プレビューは選んだときの局面にだけ有効で、手が進むと自動的に解除される
+  const [preview, setPreview] = useState<{ gameState: StrangeOthelloGameState; index: number } | null>(null)
+  const previewIndex = showEvaluation && preview?.gameState === gameState ? preview.index : null
+  const gameRecord = useMemo(() => exportGameRecord(session), [session])
+  const moveEvals = useMemo(
+    () => (showEvaluation && !gameState.gameOver ? getMoveEvals(gameState, evalTable) : new Map<string, number>()),
+    [evalTable, gameState, showEvaluation],
+  )
 
   useEffect(() => {
     return () => {
@@ -32,46 +90,44 @@ export function useStrangeOthelloGame() {
   }, [])
 
   useEffect(() => {
-    if (gameState.currentTurn !== "white" || gameState.gameOver || !solutionTable) {
+    const strategy = AI_STRATEGIES[aiLevel]
+    const tablesPending = tablesStatus === "loading" || tablesStatus === "solving"
+
+    // テーブルを使う強さでは読み込み中は待ち、失敗した場合はテーブルなしで選ぶ
+    if (gameState.currentTurn !== aiColor || gameState.gameOver || (strategy.requiresTables && tablesPending)) {
       return
     }
 
+    // 先読みは重いので更新関数の外で一度だけ行い、その間に局面が変わっていなければ反映する
     const timerId = window.setTimeout(() => {
-      setSession((previousSession) => {
-        if (
-          previousSession.gameState.currentTurn !== "white" ||
-          previousSession.gameState.gameOver ||
-          !solutionTable
-        ) {
-          return previousSession
-        }
-
-        const encodedBoard = encodeBoard(previousSession.gameState.board)
-        const storedMove = solutionTable.whiteMoveTable[encodedBoard]
-        const nextMove: Position | null = storedMove ? { row: storedMove[0], col: storedMove[1] } : null
-        const nextGameState = applyWhiteMove(previousSession.gameState, nextMove)
-
-        if (!nextGameState) {
-          return previousSession
-        }
-
-        return {
-          ...previousSession,
-          gameState: nextGameState,
-          history: [...previousSession.history, previousSession.gameState],
-        }
-      })
+      const { random, getSeed } = createSeededRandom(randomSeed)
+      const nextMove = strategy.chooseMove(gameState, { solutionTable, evalTable, random })
+      const nextRandomSeed = getSeed()
+
+      setSession((previousSession) =>
+        previousSession.gameState === gameState
+          ? { ...applySessionMove(previousSession, aiColor, nextMove), randomSeed: nextRandomSeed }
+          : previousSession,
+      )
     }, 1000)
 
     return () => window.clearTimeout(timerId)
-  }, [gameState.currentTurn, gameState.board, gameState.gameOver, setSession, solutionTable])
+  }, [aiColor, aiLevel, evalTable, gameState, randomSeed, setSession, solutionTable, tablesStatus])
 
   return {
     gameState,
+    tablesStatus,
     showEvaluation,
-    currentEval: showEvaluation ? getCurrentEval(gameState.board, gameState.currentTurn, evalTable) : null,
-    moveEvals: showEvaluation && !gameState.gameOver ? getMoveEvals(gameState, evalTable) : new Map<string, number>(),
-    canUndo: history.length >= 2,
+    playerColor,
+    aiLevel,
+    currentEval,
+    moveEvals,
+    gameRecord,
+    initialRandomSeed,
+    principalVariation,
+    previewIndex,
+    previewFrame: previewIndex === null ? null : principalVariationFrames[previewIndex],
+    canUndo: getUndoTargetIndex(history, playerColor) !== null,
     handleTitleClick: () => {
       titleClickCount.current += 1
 
@@ -92,42 +148,62 @@ export function useStrangeOthelloGame() {
         titleClickCount.current = 0
       }, 1000)
     },
-    handleBlackMove: (row: number, col: number) => {
-      setSession((previousSession) => {
-        const nextGameState = applyBlackMove(previousSession.gameState, row, col)
-
-        if (!nextGameState) {
-          return previousSession
-        }
-
-        return {
-          ...previousSession,
-          gameState: nextGameState,
-          history: [...previousSession.history, previousSession.gameState],
-        }
-      })
+    handlePlayerMove: (row: number, col: number) => {
+      setSession((previousSession) => applySessionMove(previousSession, previousSession.playerColor, { row, col }))
+    },
+    handlePass: () => {
+      setSession((previousSession) => applySessionMove(previousSession, previousSession.playerColor, null))
+    },
+    handlePreviewChange: (index: number | null) => {
+      setPreview(index === null ? null : { gameState, index })
     },
     handleUndo: () => {
       setSession((previousSession) => {
-        if (previousSession.history.length < 2) {
-          return previousSession
-        }
-
-        const nextHistory = [...previousSession.history]
-        nextHistory.pop()
-        const restoredState = nextHistory.pop()
+        const targetIndex = getUndoTargetIndex(previousSession.history, previousSession.playerColor)
 
-        if (!restoredState) {
+        if (targetIndex === null) {
           return previousSession
         }
 
         return {
           ...previousSession,
-          gameState: restoredState,
-          history: nextHistory,
+          gameState: previousSession.history[targetIndex],
+          history: previousSession.history.slice(0, targetIndex),
+          randomSeed: previousSession.randomSeedHistory[targetIndex],
+          randomSeedHistory: previousSession.randomSeedHistory.slice(0, targetIndex),
         }
       })
     },
-    handleRestart: () => resetSession(),
+    handlePlayerColorChange: (nextPlayerColor: OthelloColor) => {
+      setSession((previousSession) => ({
+        ...createInitialStrangeOthelloSession(initialBoard, initialTurn, nextPlayerColor, previousSession.aiLevel),
+        showEvaluation: previousSession.showEvaluation,
+      }))
+    },
+    // 強さは対局の途中でも変えられる
+    handleAILevelChange: (nextAILevel: OthelloAILevel) => {
+      setSession((previousSession) => ({ ...previousSession, aiLevel: nextAILevel }))
+    },
+    // 選んだ手番と強さはやり直しても引き継ぐ
+    handleRestart: () =>
+      setSession((previousSession) =>
+        createInitialStrangeOthelloSession(
+          initialBoard,
+          initialTurn,
+          previousSession.playerColor,
+          previousSession.aiLevel,
+        ),
+      ),
+    // 入力した seed で最初から始める。手番と強さが同じなら、同じ手順で同じ対局になる
+    handleStartWithSeed: (seed: number) =>
+      setSession((previousSession) =>
+        createInitialStrangeOthelloSession(
+          initialBoard,
+          initialTurn,
+          previousSession.playerColor,
+          previousSession.aiLevel,
+          seed,
+        ),
+      ),
   }
 }
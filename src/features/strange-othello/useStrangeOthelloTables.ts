@@ -1,42 +1,179 @@
 import { useEffect, useState } from "react"
-import { STRANGE_OTHELLO_TABLES_VERSION } from "./constants"
-import type { EvalTable, OthelloSolutionTable } from "./types"
+import { getPrebuiltTablePath, INITIAL_BOARD, STRANGE_OTHELLO_TABLES_VERSION } from "./constants"
+import { isSolvableBoard } from "./logic"
+import {
+  decodePackedTableFile,
+  evalTableFromFile,
+  lookupPackedValue,
+  packEvalTableJson,
+  packSolutionTableJson,
+  solutionTableFromFile,
+} from "./packedTable"
+import { getTablesCacheKey, readCachedTables, writeCachedTables } from "./tableCache"
+import type {
+  Board,
+  EvalTable,
+  EvalTableJson,
+  OthelloColor,
+  OthelloSolutionTable,
+  OthelloSolutionTableJson,
+  SolverRequest,
+  SolverResponse,
+  StrangeOthelloTables,
+  StrangeOthelloTablesStatus,
+} from "./types"
 
-export function useStrangeOthelloTables() {
+function hasInitialState(evalTable: EvalTable, request: SolverRequest) {
+  return lookupPackedValue(evalTable.evalTable, request.board, request.initialTurn) !== null
+}
+
+// 開発サーバーは存在しないファイルにも index.html を返すので、HTML の応答は未配置とみなす
+function isTableResponse(response: Response) {
+  return response.ok && !response.headers.get("content-type")?.startsWith("text/html")
+}
+
+async function fetchBinaryTables(
+  rows: number,
+  cols: number,
+  versionSuffix: string,
+): Promise<StrangeOthelloTables | null> {
+  const [solutionResponse, evalResponse] = await Promise.all([
+    fetch(`${getPrebuiltTablePath("table", "bin", rows, cols)}${versionSuffix}`),
+    fetch(`${getPrebuiltTablePath("eval", "bin", rows, cols)}${versionSuffix}`),
+  ])
+
+  if (!isTableResponse(solutionResponse) || !isTableResponse(evalResponse)) {
+    return null
+  }
+
+  const [solutionBuffer, evalBuffer] = await Promise.all([solutionResponse.arrayBuffer(), evalResponse.arrayBuffer()])
+
+  return {
+    solutionTable: solutionTableFromFile(decodePackedTableFile(solutionBuffer)),
+    evalTable: evalTableFromFile(decodePackedTableFile(evalBuffer)),
+  }
+}
+
+async function fetchJsonTables(rows: number, cols: number, versionSuffix: string): Promise<StrangeOthelloTables | null> {
+  const [solutionResponse, evalResponse] = await Promise.all([
+    fetch(`${getPrebuiltTablePath("table", "json", rows, cols)}${versionSuffix}`),
+    fetch(`${getPrebuiltTablePath("eval", "json", rows, cols)}${versionSuffix}`),
+  ])
+
+  if (!isTableResponse(solutionResponse) || !isTableResponse(evalResponse)) {
+    return null
+  }
+
+  const [solutionData, evalData] = await Promise.all([
+    solutionResponse.json() as Promise<OthelloSolutionTableJson>,
+    evalResponse.json() as Promise<EvalTableJson>,
+  ])
+
+  return {
+    solutionTable: packSolutionTableJson(solutionData, rows, cols),
+    evalTable: packEvalTableJson(evalData, rows, cols),
+  }
+}
+
+// 配布済みテーブルは各盤面サイズの初期盤面から生成されているが、その途中局面から始める場合にも使える
+async function fetchPrebuiltTables(request: SolverRequest): Promise<StrangeOthelloTables | null> {
+  const versionSuffix = `?v=${STRANGE_OTHELLO_TABLES_VERSION}`
+  const rows = request.board.length
+  const cols = request.board[0].length
+
+  for (const fetchTables of [fetchBinaryTables, fetchJsonTables]) {
+    try {
+      const tables = await fetchTables(rows, cols, versionSuffix)
+
+      // 開始局面を含まないテーブル（古い盤面から生成されたものなど）は使わない
+      if (tables && hasInitialState(tables.evalTable, request)) {
+        return tables
+      }
+    } catch (error) {
+      console.error("Failed to load prebuilt strange othello tables", error)
+    }
+  }
+
+  return null
+}
+
+function solveInWorker(request: SolverRequest, signal: AbortSignal) {
+  return new Promise<StrangeOthelloTables>((resolve, reject) => {
+    const worker = new Worker(new URL("./solver.worker.ts", import.meta.url), { type: "module" })
+
+    signal.addEventListener("abort", () => {
+      worker.terminate()
+      reject(signal.reason)
+    })
+    worker.onmessage = (event: MessageEvent<SolverResponse>) => {
+      worker.terminate()
+
+      if (event.data.type === "solved") {
+        resolve(event.data.tables)
+      } else {
+        reject(new Error(event.data.message))
+      }
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+    worker.postMessage(request)
+  })
+}
+
+export function useStrangeOthelloTables(initialBoard: Board = INITIAL_BOARD, initialTurn: OthelloColor = "black") {
   const [solutionTable, setSolutionTable] = useState<OthelloSolutionTable | null>(null)
   const [evalTable, setEvalTable] = useState<EvalTable | null>(null)
+  const [status, setStatus] = useState<StrangeOthelloTablesStatus>("loading")
+  const solvable = isSolvableBoard(initialBoard)
 
   useEffect(() => {
-    let cancelled = false
+    if (!solvable) {
+      return
+    }
+
+    const controller = new AbortController()
+    const request: SolverRequest = { board: initialBoard, initialTurn }
+    const cacheKey = getTablesCacheKey(request.board, request.initialTurn)
 
     async function loadTables() {
       try {
-        const versionSuffix = `?v=${STRANGE_OTHELLO_TABLES_VERSION}`
-        const [solutionResponse, evalResponse] = await Promise.all([
-          fetch(`/strange-othello-table.json${versionSuffix}`),
-          fetch(`/strange-othello-eval.json${versionSuffix}`),
-        ])
-
-        const [solutionData, evalData] = await Promise.all([
-          solutionResponse.json() as Promise<OthelloSolutionTable>,
-          evalResponse.json() as Promise<EvalTable>,
-        ])
-
-        if (!cancelled) {
-          setSolutionTable(solutionData)
-          setEvalTable(evalData)
+        let tables = await readCachedTables(cacheKey).catch((error: unknown) => {
+          console.error("Failed to read cached strange othello tables", error)
+          return null
+        })
+        tables ??= await fetchPrebuiltTables(request)
+
+        if (!tables) {
+          if (controller.signal.aborted) {
+            return
+          }
+
+          setStatus("solving")
+          tables = await solveInWorker(request, controller.signal)
+          writeCachedTables(cacheKey, tables).catch((error: unknown) => {
+            console.error("Failed to cache strange othello tables", error)
+          })
+        }
+
+        if (!controller.signal.aborted) {
+          setSolutionTable(tables.solutionTable)
+          setEvalTable(tables.evalTable)
+          setStatus("ready")
         }
       } catch (error) {
-        console.error("Failed to load strange othello tables", error)
+        if (!controller.signal.aborted) {
+          console.error("Failed to load strange othello tables", error)
+          setStatus("failed")
+        }
       }
     }
 
     loadTables()
 
-    return () => {
-      cancelled = true
-    }
-  }, [])
+    return () => controller.abort()
+  }, [initialBoard, initialTurn, solvable])
 
-  return { solutionTable, evalTable }
+  return { solutionTable, evalTable, status: solvable ? status : "unavailable" }
 }
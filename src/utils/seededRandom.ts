@@ -0,0 +1,54 @@
+// セッションに保存した seed から決まった順に乱数を出す（mulberry32）。
+// 同じ seed と同じ手順なら AI のランダムな手も含めて対局を再現できる
+
+const MAX_RANDOM_SEED = 2 ** 32 - 1
+
+// 乱数を使う対局のセッションが持つ seed。1手戻るときは randomSeedHistory から seed も戻し、
+// 戻ったあとに同じ手を指せば AI も同じ手を選ぶようにする
+export interface RandomSeedState {
+  // 対局を始めたときの seed。画面に表示し、入力すれば同じ対局を始め直せる
+  initialRandomSeed: number
+  // 次に乱数を使うときの seed
+  randomSeed: number
+  // history の各局面での randomSeed（history と同じ長さ）
+  randomSeedHistory: number[]
+}
+
+export function createRandomSeed() {
+  return Math.floor(Math.random() * 2 ** 32) >>> 0
+}
+
+// 入力された seed を読む。0〜2^32 - 1 の整数でなければ null
+export function parseRandomSeed(text: string) {
+  const trimmed = text.trim()
+
+  if (!/^\d+$/.test(trimmed) || Number(trimmed) > MAX_RANDOM_SEED) {
+    return null
+  }
+
+  return Number(trimmed)
+}
+
+// seed から [0, 1) の乱数を1つ取り出し、次の seed と一緒に返す
+export function nextRandom(seed: number) {
+  const nextSeed = (seed + 0x6d2b79f5) >>> 0
+  let value = Math.imul(nextSeed ^ (nextSeed >>> 15), nextSeed | 1)
+  value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+
+  return { value: ((value ^ (value >>> 14)) >>> 0) / 2 ** 32, nextSeed }
+}
+
+// random 引数に渡せる関数を作る。乱数を1つ使うたびに seed が進み、使った分だけ進んだ seed を
+// getSeed で受け取ってセッションに書き戻す。書き戻さないと次も同じ乱数が出る
+export function createSeededRandom(seed: number) {
+  let currentSeed = seed
+
+  return {
+    random: () => {
+      const { value, nextSeed } = nextRandom(currentSeed)
+      currentSeed = nextSeed
+      return value
+    },
+    getSeed: () => currentSeed,
+  }
+}